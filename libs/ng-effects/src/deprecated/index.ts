@@ -9,6 +9,11 @@ export * from "./view-renderer"
 export { CONNECT_EFFECTS } from "./internals/providers"
 export { RUN_EFFECTS } from "./internals/providers"
 export { HOST_REF } from "./internals/providers"
+export { runEffects as ɵrunEffects } from "./internals/run-effects"
+export { DestroyObserver as ɵDestroyObserver } from "./internals/destroy-observer"
+export { createHostRef as ɵcreateHostRef } from "./internals/host-ref"
+export { createEffectsFactory as ɵcreateEffectsFactory } from "./internals/utils"
+export { RenderApi as ɵRenderApi } from "./internals/interfaces"
 export { AssignEffectDecorator } from "./internals/interfaces"
 export { BindEffectDecorator } from "./internals/interfaces"
 export { AdapterEffectDecorator } from "./internals/interfaces"
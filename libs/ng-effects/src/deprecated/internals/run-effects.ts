@@ -1,6 +1,6 @@
 import { ChangeDetectorRef, Injector, NgZone, ViewContainerRef } from "@angular/core"
 import { isObservable, Observable, Subject } from "rxjs"
-import { ViewRenderer } from "../view-renderer"
+import { RenderApi } from "./interfaces"
 import {
     CreateEffectAdapter,
     EffectMetadata,
@@ -152,8 +152,8 @@ export function runEffects(
     effectsMetadata: EffectMetadata[],
     hostRef: HostRef,
     destroyObserver: DestroyObserver,
-    viewRenderer: ViewRenderer,
-    parentRef: HostRef,
+    viewRenderer: RenderApi,
+    parentRef: HostRef | null,
     injector: Injector,
     changeDetector?: ChangeDetectorRef,
     viewContainerRef?: ViewContainerRef,
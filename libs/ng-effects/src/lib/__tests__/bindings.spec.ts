@@ -0,0 +1,97 @@
+import { Component } from "@angular/core"
+import { ComponentFixture, TestBed } from "@angular/core/testing"
+import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { Connectable } from "../connectable.directive"
+import { UnwrapBindings } from "../bindings"
+import { computed } from "../computed"
+import { connectable } from "../providers"
+import { ref } from "../ref"
+
+function useCounter() {
+    const count = ref(0)
+    const double = computed(() => count.value * 2)
+
+    function increment() {
+        count.value += 1
+    }
+
+    return { count, double, increment }
+}
+
+export interface CounterComponent extends UnwrapBindings<ReturnType<typeof useCounter>> {}
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    selector: "ng9-counter",
+    template: `
+        {{ count }} {{ double }}
+    `,
+    providers: [connectable(useCounter)],
+})
+export class CounterComponent extends Connectable {}
+
+describe("setup bindings", () => {
+    beforeEach(() => declare(ConnectedComponent, CounterComponent))
+
+    it("should expose returned refs, computed values and functions", () => {
+        let subject: ComponentFixture<CounterComponent>
+
+        given: subject = TestBed.createComponent(CounterComponent)
+        given: subject.detectChanges()
+
+        when: {
+            subject.componentInstance.increment()
+            subject.detectChanges()
+        }
+
+        then: expect(subject.nativeElement.textContent.trim()).toBe("1 2")
+    })
+
+    it("should write through to exposed refs", () => {
+        let subject: ComponentFixture<CounterComponent>
+
+        given: subject = TestBed.createComponent(CounterComponent)
+        given: subject.detectChanges()
+
+        when: {
+            subject.componentInstance.count = 5
+            subject.detectChanges()
+        }
+
+        then: expect(subject.componentInstance.double).toBe(10)
+    })
+
+    it("should expose bindings returned from ngOnConnect", () => {
+        let subject
+
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => ({ name: ref("ngfx") })
+
+        when: subject.detectChanges()
+
+        then: expect(subject.componentInstance.name).toBe("ngfx")
+    })
+
+    it("should not expose array results", () => {
+        let subject: ComponentFixture<ConnectedComponent>
+
+        given: subject = createConnectedComponent(connectable(() => [{ count: ref(0) }]))
+
+        when: subject.detectChanges()
+
+        then: expect(subject.componentInstance).not.toHaveProperty("count")
+    })
+
+    it("should throw when a binding is exposed more than once", () => {
+        let subject: ComponentFixture<ConnectedComponent>
+
+        given: subject = createConnectedComponent([
+            connectable(() => ({ count: ref(0) })),
+            connectable(() => ({ count: ref(1) })),
+        ])
+
+        then: expect(() => subject.detectChanges()).toThrowError(
+            `[ngfx] Setup binding "count" is already defined on "ConnectedComponent".`,
+        )
+    })
+})
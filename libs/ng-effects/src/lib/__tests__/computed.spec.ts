@@ -0,0 +1,103 @@
+import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { computed } from "../computed"
+import { watchEffect } from "../utils"
+import fn = jest.fn
+import Mock = jest.Mock
+
+describe("computed", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should evaluate lazily and cache the result", () => {
+        let subject, getter: Mock, result: any
+
+        given: getter = fn(() => 1)
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            result = computed(getter)
+        }
+
+        when: subject.detectChanges()
+
+        then: expect(getter).toHaveBeenCalledTimes(0)
+        then: expect(result.value).toBe(1)
+        then: expect(result.value).toBe(1)
+        then: expect(getter).toHaveBeenCalledTimes(1)
+    })
+
+    it("should recompute when its dependencies change", () => {
+        let subject, getter: Mock, result: any
+
+        given: getter = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 1
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            getter.mockImplementation(() => this.count + 1)
+            result = computed(getter)
+        }
+
+        when: {
+            subject.detectChanges()
+            expect(result.value).toBe(2)
+            subject.componentInstance.count = 2
+        }
+
+        then: expect(result.value).toBe(3)
+        then: expect(result.value).toBe(3)
+        then: expect(getter).toHaveBeenCalledTimes(2)
+    })
+
+    it("should be tracked by effects", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 1
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            const double = computed(() => this.count * 2)
+            watchEffect(() => expected(double.value))
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.count = 2
+            subject.componentInstance.fakeProp = 1
+            subject.detectChanges()
+        }
+
+        then: expect(expected.mock.calls).toEqual([[2], [4]])
+    })
+
+    it("should support writable computed values", () => {
+        let subject, result: any
+
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 1
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            result = computed({
+                get: () => this.count + 1,
+                set: value => (this.count = value - 1),
+            })
+        }
+
+        when: {
+            subject.detectChanges()
+            result.value = 10
+        }
+
+        then: expect(subject.componentInstance.count).toBe(9)
+        then: expect(result.value).toBe(10)
+    })
+
+    it("should throw when assigning to a readonly computed value", () => {
+        let subject, result: any
+
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            result = computed(() => 1)
+        }
+
+        when: subject.detectChanges()
+
+        then: expect(() => (result.value = 2)).toThrow()
+    })
+})
@@ -1,6 +1,9 @@
-import { getInjector, runInContext } from "../connect"
-import { connectable } from "../providers"
+import { onChanges } from "../connect"
+import { getInjector, runInContext } from "../context"
+import { connectable, connectOptions } from "../providers"
+import { watchEffect } from "../utils"
 import fn = jest.fn
+import Mock = jest.Mock
 import {
     ConnectedComponent,
     createConnectedComponent,
@@ -11,6 +14,10 @@ import {
 } from "./utils"
 import { ChangeDetectorRef, ViewContainerRef } from "@angular/core"
 
+class Address {
+    constructor(public city: string) {}
+}
+
 describe("connect", () => {
     beforeEach(() => declare(ConnectedComponent))
 
@@ -66,4 +73,63 @@ describe("connect", () => {
         then: expect(expected).toHaveBeenCalledTimes(1)
         then: expect(expected).toHaveBeenCalledWith(subject.componentInstance)
     })
+
+    it("should only track top level properties by default", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.user = { address: { city: "a" } }
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            watchEffect(() => expected(this.user.address.city))
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.user.address.city = "b"
+            subject.detectChanges()
+        }
+
+        then: expect(expected.mock.calls).toEqual([["a"]])
+    })
+
+    it("should track nested properties in deep mode", () => {
+        let subject, expected: Mock, changes: Mock
+
+        given: expected = fn()
+        given: changes = fn()
+        given: subject = createConnectedComponent(connectOptions({ deep: true }))
+        given: subject.componentInstance.user = { address: { city: "a" } }
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            watchEffect(() => expected(this.user.address.city))
+            onChanges(changes)
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.user.address.city = "b"
+        }
+
+        then: expect(expected.mock.calls).toEqual([["a"], ["b"]])
+        // called once for the first change detection, then once for the nested change
+        then: expect(changes).toHaveBeenCalledTimes(2)
+    })
+
+    it("should track class instances in deep mode", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent(connectOptions({ deep: true }))
+        given: subject.componentInstance.user = { address: new Address("a") }
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            watchEffect(() => expected(this.user.address.city))
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.user.address.city = "b"
+        }
+
+        then: expect(expected.mock.calls).toEqual([["a"], ["b"]])
+    })
 })
@@ -0,0 +1,114 @@
+import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { onChanges, whenRendered } from "../connect"
+import { getDebugInfo } from "../debug"
+import { toRaw, watchEffect } from "../utils"
+import fn = jest.fn
+import Mock = jest.Mock
+
+describe("getDebugInfo", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should return the registered hooks", () => {
+        let subject, result, changes: Mock, rendered: Mock
+
+        given: changes = fn()
+        given: rendered = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            onChanges(changes)
+            whenRendered(rendered)
+        }
+
+        when: {
+            subject.detectChanges()
+            result = getDebugInfo(subject.componentInstance)
+        }
+
+        then: expect(result.hooks).toEqual({
+            OnChanges: [changes],
+            WhenRendered: [rendered],
+        })
+    })
+
+    it("should return effect names, stacks, dependencies and run counts", () => {
+        let subject, result: any, instance: any, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            instance = this
+            watchEffect(() => expected(this.count), { name: "count" })
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.count = 1
+            result = getDebugInfo(subject.componentInstance)
+        }
+
+        then: expect(result.effects).toEqual([
+            expect.objectContaining({
+                name: "count",
+                stack: expect.any(String),
+                flush: "pre",
+                watch: true,
+                runs: 2,
+                deps: [{ target: expect.anything(), keys: ["count"] }],
+            }),
+        ])
+        then: expect(result.effects[0].deps[0].target).toBe(toRaw(instance))
+    })
+
+    it("should return the last invalidation cause", () => {
+        let subject, result: any, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.name = "a"
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            watchEffect(() => {
+                expected(this.count, this.name)
+            })
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.name = "b"
+            result = getDebugInfo(subject.componentInstance)
+        }
+
+        then: expect(result.effects[0].lastInvalidation).toEqual([
+            {
+                target: expect.anything(),
+                key: "name",
+                previousValue: "a",
+                currentValue: "b",
+            },
+        ])
+    })
+
+    it("should remove stopped effects", () => {
+        let subject, result: any
+
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            const stop = watchEffect(() => {})
+            whenRendered(stop)
+        }
+
+        when: {
+            subject.detectChanges()
+            result = getDebugInfo(subject.componentInstance)
+        }
+
+        then: expect(result.effects).toEqual([])
+    })
+
+    it("should throw for components that are not connected", () => {
+        expect(() => getDebugInfo({})).toThrowError(
+            "[ngfx] Debug info requested for a component that is not connected.",
+        )
+    })
+})
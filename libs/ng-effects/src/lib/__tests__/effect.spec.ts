@@ -1,20 +1,19 @@
-import { ConnectedComponent, createConnectedComponent, declare, provide } from "./utils"
+import {
+    ConnectedComponent,
+    createConnectedComponent,
+    declare,
+    detectChangesAfterEach,
+    provide,
+} from "./utils"
 import { afterViewInit, inject, onChanges, onDestroy, whenRendered } from "../connect"
-import { connectable } from "../providers"
-import { ComponentFixture, fakeAsync, TestBed, tick } from "@angular/core/testing"
+import { connectable, connectOptions } from "../providers"
+import { fakeAsync, TestBed, tick } from "@angular/core/testing"
 import { timer } from "rxjs"
 import { Component, InjectionToken } from "@angular/core"
 import { Connectable } from "../connectable.directive"
 import fn = jest.fn
 import Mock = jest.Mock
-import { watchEffect } from "../utils"
-
-export function detectChangesAfterEach(fixture: ComponentFixture<any>, values: any[]) {
-    for (const value of values) {
-        fixture.componentInstance.fakeProp = value
-        fixture.detectChanges()
-    }
-}
+import { effect, reactive, watchEffect } from "../utils"
 
 const SPY = new InjectionToken<Mock>("SPY")
 
@@ -218,4 +217,204 @@ describe("effect", () => {
             [9],
         ])
     })
+
+    it("should flush post effects after the view is rendered", () => {
+        let subject, expected: Mock, connect
+
+        given: expected = fn()
+        given: connect = function(this: any) {
+            watchEffect(() => expected("post", this.fakeProp), { flush: "post" })
+            watchEffect(() => expected("pre", this.fakeProp))
+            whenRendered(() => expected("rendered"))
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: {
+            detectChangesAfterEach(subject, [1, 2])
+        }
+
+        then: expect(expected.mock.calls).toEqual([
+            ["pre", 1],
+            ["rendered"],
+            ["post", 1],
+            ["pre", 2],
+            ["rendered"],
+            ["post", 2],
+        ])
+    })
+
+    it("should flush sync effects on every write", () => {
+        let subject, expected: Mock, connect, list: any
+
+        given: expected = fn()
+        given: connect = function() {
+            list = reactive([])
+            watchEffect(() => expected("sync", list.length), { flush: "sync" })
+            watchEffect(() => expected("pre", list.length))
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: {
+            subject.detectChanges()
+            list.push(1)
+            list.push(2)
+        }
+
+        then: expect(expected.mock.calls).toEqual([
+            ["sync", 0],
+            ["pre", 0],
+            ["sync", 1],
+            ["pre", 1],
+            ["sync", 2],
+            ["pre", 2],
+        ])
+    })
+
+    it("should flush sync effects once per array mutation", () => {
+        let subject, expected: Mock, connect, list: any
+
+        given: expected = fn()
+        given: connect = function() {
+            list = reactive([1, 2])
+            watchEffect(() => expected(list.length), { flush: "sync" })
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = connect
+        given: subject.detectChanges()
+
+        when: list.push(3, 4)
+
+        then: expect(expected.mock.calls).toEqual([[2], [4]])
+    })
+
+    it("should run every registered cleanup when the effect is invalidated", () => {
+        let subject, expected: Mock, connect
+
+        given: expected = fn()
+        given: connect = function(this: any) {
+            watchEffect(onCleanup => {
+                const value = this.fakeProp
+                onCleanup(() => expected("first", value))
+                onCleanup(() => expected("second", value))
+            })
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: {
+            detectChangesAfterEach(subject, [1, 2])
+            subject.destroy()
+        }
+
+        then: expect(expected.mock.calls).toEqual([
+            ["first", 1],
+            ["second", 1],
+            ["first", 2],
+            ["second", 2],
+        ])
+    })
+
+    it("should run cleanups registered after the effect was invalidated", fakeAsync(() => {
+        let subject, expected: Mock, connect
+
+        given: expected = fn()
+        given: connect = function(this: any) {
+            watchEffect(onCleanup => {
+                const value = this.fakeProp
+                let stale = false
+                timer(1000).subscribe(() => {
+                    onCleanup(() => (stale = true))
+                    if (!stale) {
+                        expected(value)
+                    }
+                })
+            })
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: {
+            detectChangesAfterEach(subject, [1, 2])
+            tick(1000)
+            subject.destroy()
+        }
+
+        then: expect(expected.mock.calls).toEqual([[2]])
+    }))
+
+    it("should detect infinite effect loops in dev mode", () => {
+        let subject: any, connect
+
+        given: connect = function(this: any) {
+            watchEffect(() => (this.b = this.a + 1), { name: "a to b" })
+            watchEffect(() => (this.a = this.b + 1), { name: "b to a" })
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.a = 0
+        given: subject.componentInstance.b = 0
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: subject.detectChanges()
+
+        then: expect(() => (subject.componentInstance.a = 10)).toThrowError(
+            /Infinite effect loop detected: effect "a to b" re-ran more than 100 times in a single flush\. It was last invalidated by a change to "a"\./,
+        )
+    })
+
+    it("should use the configured effect loop limit", () => {
+        let subject: any, connect, expected: Mock
+
+        given: expected = fn()
+        given: connect = function(this: any) {
+            watchEffect(() => {
+                expected()
+                this.b = this.a + 1
+            })
+            watchEffect(() => (this.a = this.b + 1))
+        }
+        given: subject = createConnectedComponent(connectOptions({ effectLoopLimit: 5 }))
+        given: subject.componentInstance.a = 0
+        given: subject.componentInstance.b = 0
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: {
+            subject.detectChanges()
+            expected.mockClear()
+        }
+
+        then: expect(() => (subject.componentInstance.a = 10)).toThrowError(
+            /re-ran more than 5 times in a single flush/,
+        )
+        then: expect(expected).toHaveBeenCalledTimes(5)
+    })
+    it("should run effects created by a re-run on the same component", () => {
+        let subject, expected: Mock, connect, other, calls: number[]
+
+        given: calls = []
+        given: expected = fn()
+        given: connect = function(this: any) {
+            watchEffect(() => {
+                if (this.fakeProp) {
+                    effect(() => expected(this.fakeProp))
+                }
+            })
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.fakeProp = 0
+        given: subject.componentInstance.ngOnConnect = connect
+        given: subject.detectChanges()
+
+        when: {
+            subject.componentInstance.fakeProp = 1
+            subject.detectChanges()
+            calls.push(expected.mock.calls.length)
+            other = TestBed.createComponent(ConnectedComponent)
+            other.detectChanges()
+            calls.push(expected.mock.calls.length)
+        }
+
+        then: expect(calls).toEqual([1, 1])
+    })
 })
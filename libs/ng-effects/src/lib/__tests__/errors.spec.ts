@@ -0,0 +1,225 @@
+import { Component, ErrorHandler, InjectionToken } from "@angular/core"
+import { TestBed } from "@angular/core/testing"
+import {
+    ConnectedComponent,
+    createConnectedComponent,
+    declare,
+    detectChangesAfterEach,
+    provide,
+} from "./utils"
+import { Connectable } from "../connectable.directive"
+import { inject, onChanges } from "../connect"
+import { EFFECT_ERROR_HANDLER } from "../constants"
+import { onErrorCaptured } from "../errors"
+import { connectOptions } from "../providers"
+import { watchEffect } from "../utils"
+import fn = jest.fn
+import Mock = jest.Mock
+
+const ERROR = new InjectionToken<Error>("ERROR")
+const CAPTURED = new InjectionToken<Mock>("CAPTURED")
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    selector: "ng9-failing-child",
+    template: ``,
+})
+export class FailingChildComponent extends Connectable {
+    ngOnConnect() {
+        const error = inject(ERROR)
+        watchEffect(() => {
+            throw error
+        })
+    }
+}
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    template: `
+        <ng9-failing-child></ng9-failing-child>
+    `,
+})
+export class CapturingParentComponent extends Connectable {
+    ngOnConnect() {
+        onErrorCaptured(inject(CAPTURED))
+    }
+}
+
+describe("errors", () => {
+    let error: Error, handler: Mock
+
+    beforeEach(() => declare(ConnectedComponent, FailingChildComponent, CapturingParentComponent))
+    beforeEach(() => {
+        error = new Error("effect failed")
+        handler = fn()
+        provide(
+            { provide: ERROR, useValue: error },
+            { provide: ErrorHandler, useValue: { handleError: handler } },
+        )
+    })
+
+    it("should report errors to Angular's ErrorHandler by default", () => {
+        let subject, connect
+
+        given: connect = () => {
+            watchEffect(() => {
+                throw error
+            })
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: {
+            subject.detectChanges()
+        }
+
+        then: expect(handler).toHaveBeenCalledWith(error)
+    })
+
+    it("should report errors to a custom effect error handler", () => {
+        let subject, connect, expected: Mock
+
+        given: expected = fn()
+        given: provide({ provide: EFFECT_ERROR_HANDLER, useValue: { handleError: expected } })
+        given: connect = () => {
+            watchEffect(() => {
+                throw error
+            })
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: {
+            subject.detectChanges()
+        }
+
+        then: expect(expected).toHaveBeenCalledWith(error)
+        then: expect(handler).not.toHaveBeenCalled()
+    })
+
+    it("should capture errors thrown by lifecycle hooks", () => {
+        let subject, connect
+
+        given: connect = () => {
+            onChanges(() => {
+                throw error
+            })
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: {
+            subject.detectChanges()
+        }
+
+        then: expect(handler).toHaveBeenCalledWith(error)
+    })
+
+    it("should keep the component alive when an effect fails", () => {
+        let subject, connect, expected: Mock
+
+        given: expected = fn()
+        given: connect = function(this: any) {
+            watchEffect(() => {
+                expected(this.fakeProp)
+                throw error
+            })
+            watchEffect(() => expected("alive", this.fakeProp))
+        }
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: {
+            detectChangesAfterEach(subject, [1, 2])
+        }
+
+        then: expect(expected.mock.calls).toEqual([[1], ["alive", 1], ["alive", 2]])
+    })
+
+    it("should re-run failed effects on the next invalidation with the retry policy", () => {
+        let subject, connect, expected: Mock
+
+        given: expected = fn()
+        given: connect = function(this: any) {
+            watchEffect(() => {
+                expected(this.fakeProp)
+                if (this.fakeProp === 1) {
+                    throw error
+                }
+            })
+        }
+        given: subject = createConnectedComponent(connectOptions({ errorPolicy: "retry" }))
+        given: subject.componentInstance.ngOnConnect = connect
+
+        when: {
+            detectChangesAfterEach(subject, [1, 2, 3])
+        }
+
+        then: expect(expected.mock.calls).toEqual([[1], [2], [3]])
+        then: expect(handler).toHaveBeenCalledTimes(1)
+    })
+
+    it("should rethrow errors with the rethrow policy", () => {
+        let subject: any, connect
+
+        given: connect = () => {
+            watchEffect(() => {
+                throw error
+            })
+        }
+        given: subject = createConnectedComponent(connectOptions({ errorPolicy: "rethrow" }))
+        given: subject.componentInstance.ngOnConnect = connect
+
+        then: expect(() => subject.detectChanges()).toThrow(error)
+        then: expect(handler).not.toHaveBeenCalled()
+    })
+
+    it("should report the remaining errors when rethrowing", () => {
+        let subject: any, connect, other: Error
+
+        given: other = new Error("other effect failed")
+        given: connect = () => {
+            watchEffect(() => {
+                throw error
+            })
+            watchEffect(() => {
+                throw other
+            })
+        }
+        given: subject = createConnectedComponent(connectOptions({ errorPolicy: "rethrow" }))
+        given: subject.componentInstance.ngOnConnect = connect
+
+        then: expect(() => subject.detectChanges()).toThrow(error)
+        then: expect(handler).toHaveBeenCalledWith(other)
+    })
+
+    it("should propagate errors to parent contexts", () => {
+        let subject, captured: Mock
+
+        given: captured = fn()
+        given: provide({ provide: CAPTURED, useValue: captured })
+        given: subject = TestBed.createComponent(CapturingParentComponent)
+
+        when: {
+            subject.detectChanges()
+        }
+
+        then: expect(captured).toHaveBeenCalledWith(error, expect.any(FailingChildComponent))
+        then: expect(handler).toHaveBeenCalledWith(error)
+    })
+
+    it("should stop propagating errors when a handler returns false", () => {
+        let subject, captured: Mock
+
+        given: captured = fn(() => false)
+        given: provide({ provide: CAPTURED, useValue: captured })
+        given: subject = TestBed.createComponent(CapturingParentComponent)
+
+        when: {
+            subject.detectChanges()
+        }
+
+        then: expect(captured).toHaveBeenCalledWith(error, expect.any(FailingChildComponent))
+        then: expect(handler).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,102 @@
+import { InjectionToken } from "@angular/core"
+import { ConnectableHarness, createConnectableHarness } from "ng-effects/testing"
+import { inject, onChanges, onDestroy, whenRendered } from "../connect"
+import { watchEffect } from "../utils"
+import { LifecycleHook } from "../interfaces"
+import fn = jest.fn
+import Mock = jest.Mock
+
+const SPY = new InjectionToken<Mock>("SPY")
+
+describe("createConnectableHarness", () => {
+    it("should run connectable functions without a test bed", () => {
+        let subject: ConnectableHarness<any>, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectableHarness(
+            (state: { count: number }) => {
+                watchEffect(() => expected("effect", state.count))
+                whenRendered(() => expected("rendered", state.count))
+            },
+            { state: { count: 0 } },
+        )
+
+        when: {
+            subject.init()
+            subject.check()
+            subject.viewInit()
+            subject.rendered()
+            subject.context.count = 1
+            subject.check()
+            subject.rendered()
+        }
+
+        then: expect(expected.mock.calls).toEqual([
+            ["effect", 0],
+            ["rendered", 0],
+            ["effect", 1],
+            ["rendered", 1],
+        ])
+    })
+
+    it("should resolve injected dependencies from providers", () => {
+        let subject: ConnectableHarness<any>, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectableHarness(
+            () => {
+                inject(SPY)("connected")
+            },
+            { providers: [{ provide: SPY, useValue: expected }] },
+        )
+
+        when: subject.init()
+
+        then: expect(expected).toHaveBeenCalledWith("connected")
+    })
+
+    it("should report registered effects", () => {
+        let subject: ConnectableHarness<{}>
+
+        given: subject = createConnectableHarness(() => {
+            watchEffect(() => {}, { name: "first" })
+            watchEffect(() => {}, { name: "second" })
+        })
+
+        when: subject.init()
+
+        then: {
+            expect(subject.getEffects().map(effect => effect.name)).toEqual(["first", "second"])
+            expect(() => subject.expectEffects(2)).not.toThrow()
+            expect(() => subject.expectEffects(1)).toThrowError(
+                "[ngfx] Expected 1 active effect(s), found 2.",
+            )
+        }
+    })
+
+    it("should report pending cleanups and run them on destroy", () => {
+        let subject: ConnectableHarness<any>, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectableHarness(
+            () => {
+                onChanges(() => expected)
+                onDestroy(() => expected)
+            },
+            { state: { value: 1 } },
+        )
+
+        when: {
+            subject.init()
+            subject.check()
+        }
+
+        then: {
+            expect(() => subject.expectCleanups(1, LifecycleHook.OnChanges)).not.toThrow()
+            expect(() => subject.expectCleanups(0, LifecycleHook.OnDestroy)).not.toThrow()
+            subject.destroy()
+            expect(() => subject.expectCleanups(0)).not.toThrow()
+            expect(expected).toHaveBeenCalledTimes(2)
+        }
+    })
+})
@@ -1,13 +1,69 @@
-import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { ConnectedComponent, createConnectedComponent, declare, provide } from "./utils"
 import fn = jest.fn
 import Mock = jest.Mock
-import { afterViewInit, onChanges, onDestroy, whenRendered } from "../connect"
+import {
+    afterContentChecked,
+    afterContentInit,
+    afterViewInit,
+    onChanges,
+    onDestroy,
+    inject,
+    onInit,
+    whenRendered,
+} from "../connect"
 import { effect, watchEffect } from "../utils"
+import { Component, ContentChildren, InjectionToken, QueryList, SimpleChange } from "@angular/core"
+import { TestBed } from "@angular/core/testing"
+import { Connectable } from "../connectable.directive"
 
-const hooks = [watchEffect, effect, onChanges, afterViewInit, whenRendered, onDestroy]
+const SPY = new InjectionToken<Mock>("SPY")
+
+const hooks = [
+    watchEffect,
+    effect,
+    onInit,
+    onChanges,
+    afterContentInit,
+    afterContentChecked,
+    afterViewInit,
+    whenRendered,
+    onDestroy,
+]
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    selector: "ng9-content",
+    template: `
+        <ng-content></ng-content>
+    `,
+})
+export class ContentComponent extends Connectable {
+    @ContentChildren("item")
+    items?: QueryList<any>
+
+    ngOnConnect() {
+        const spy = inject(SPY)
+
+        onInit(() => spy("onInit", this.items?.length))
+        afterContentInit(() => spy("afterContentInit", this.items?.length))
+        afterContentChecked(() => spy("afterContentChecked", this.items?.length))
+        afterViewInit(() => spy("afterViewInit", this.items?.length))
+    }
+}
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    template: `
+        <ng9-content>
+            <span #item></span>
+            <span #item></span>
+        </ng9-content>
+    `,
+})
+export class ContentHostComponent {}
 
 describe("lifecycle hooks", () => {
-    beforeEach(() => declare(ConnectedComponent))
+    beforeEach(() => declare(ConnectedComponent, ContentComponent, ContentHostComponent))
 
     for (const hook of hooks) {
         it(`should run ${hook.name}() hooks`, async () => {
@@ -29,4 +85,51 @@ describe("lifecycle hooks", () => {
             then: expect(expected).toHaveBeenCalledTimes(1)
         })
     }
+
+    it("should run content hooks before view hooks", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: provide({ provide: SPY, useValue: expected })
+        given: subject = TestBed.createComponent(ContentHostComponent)
+
+        when: {
+            subject.detectChanges()
+        }
+
+        then: expect(expected.mock.calls).toEqual([
+            ["onInit", undefined],
+            ["afterContentInit", 2],
+            ["afterContentChecked", 2],
+            ["afterViewInit", 2],
+        ])
+    })
+
+    it("should pass change records to onChanges() hooks", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.name = "a"
+        given: subject.componentInstance.ngOnConnect = () => {
+            onChanges(expected)
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.count = 1
+        }
+
+        then: expect(expected).toHaveBeenCalledTimes(2)
+        then: expect(expected.mock.calls[0][0]).toEqual(
+            expect.objectContaining({
+                count: new SimpleChange(undefined, 0, true),
+                name: new SimpleChange(undefined, "a", true),
+            }),
+        )
+        then: expect(expected.mock.calls[1][0]).toEqual({
+            count: new SimpleChange(0, 1, false),
+        })
+    })
 })
@@ -0,0 +1,96 @@
+import { Injectable } from "@angular/core"
+import { interval } from "rxjs"
+import { map, take } from "rxjs/operators"
+import { TestScheduler } from "rxjs/testing"
+import { createConnectableMarbleHarness, createEffectsMarbleHarness } from "ng-effects/testing"
+import { effect } from "../utils"
+import { Effect, State } from "../../deprecated/decorators"
+import { HostEmitter } from "../../deprecated/host-emitter"
+
+interface CountState {
+    count: number
+}
+
+class CountDirective {
+    count = 0
+    countChange = new HostEmitter<number>()
+}
+
+@Injectable()
+class CountEffects {
+    @Effect("count")
+    count(_: State<CountDirective>) {
+        return interval(10).pipe(
+            take(2),
+            map(value => value + 1),
+        )
+    }
+
+    @Effect("countChange")
+    countChange(state: State<CountDirective>) {
+        return state.count
+    }
+}
+
+describe("marble testing", () => {
+    let scheduler: TestScheduler
+
+    beforeEach(() => {
+        scheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected))
+    })
+
+    it("should record composition effects on a virtual clock", () => {
+        scheduler.run(({ cold, expectObservable }) => {
+            let subject
+
+            given: subject = createConnectableMarbleHarness(
+                (state: CountState) => {
+                    effect(() => interval(10).subscribe(() => (state.count += 1)))
+                },
+                { state: { count: 0 } },
+            )
+
+            when: {
+                subject.init()
+                subject.check()
+                cold("25ms d").subscribe(subject.destroy)
+            }
+
+            then: {
+                expectObservable(subject.timeline.select("count")).toBe("10ms a 9ms b", {
+                    a: 1,
+                    b: 2,
+                })
+                expectObservable(subject.timeline.lifecycle).toBe("(ic) 21ms d", {
+                    i: "init",
+                    c: "check",
+                    d: "destroy",
+                })
+            }
+        })
+    })
+
+    it("should record decorator effect bindings and host emitter values", () => {
+        scheduler.run(({ expectObservable }) => {
+            let subject
+
+            given: subject = createEffectsMarbleHarness(new CountDirective(), {
+                providers: [{ provide: CountEffects, useClass: CountEffects, deps: [] }],
+            })
+
+            when: subject.init()
+
+            then: {
+                expectObservable(subject.timeline.select("count")).toBe("10ms a 9ms b", {
+                    a: 1,
+                    b: 2,
+                })
+                expectObservable(subject.timeline.select("countChange")).toBe("a 9ms b 9ms c", {
+                    a: 0,
+                    b: 1,
+                    c: 2,
+                })
+            }
+        })
+    })
+})
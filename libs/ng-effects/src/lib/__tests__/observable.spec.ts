@@ -0,0 +1,72 @@
+import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { fromObservable, toObservable } from "../observable"
+import { watchEffect } from "../utils"
+import { Subject } from "rxjs"
+import fn = jest.fn
+import Mock = jest.Mock
+
+describe("toObservable", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should emit whenever the source changes", () => {
+        let subject, expected: Mock, complete: Mock
+
+        given: expected = fn()
+        given: complete = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            toObservable(() => this.count).subscribe({ next: expected, complete })
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.count = 1
+            subject.componentInstance.count = 2
+            subject.destroy()
+        }
+
+        then: expect(expected.mock.calls).toEqual([[0], [1], [2]])
+        then: expect(complete).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe("fromObservable", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should update the ref when the source emits", () => {
+        let subject, expected: Mock, source: Subject<number>
+
+        given: expected = fn()
+        given: source = new Subject()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            const count = fromObservable(source, 0)
+            watchEffect(() => expected(count.value))
+        }
+
+        when: {
+            subject.detectChanges()
+            source.next(1)
+        }
+
+        then: expect(expected.mock.calls).toEqual([[0], [1]])
+    })
+
+    it("should unsubscribe when the component is destroyed", () => {
+        let subject, source: Subject<number>
+
+        given: source = new Subject()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            fromObservable(source)
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.destroy()
+        }
+
+        then: expect(source.observers.length).toBe(0)
+    })
+})
@@ -0,0 +1,95 @@
+import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { lifecycle$, takeUntilDestroyed, whenRendered$ } from "../operators"
+import { LifecycleHook } from "../interfaces"
+import { runInContext } from "../context"
+import { NEVER } from "rxjs"
+import fn = jest.fn
+import Mock = jest.Mock
+
+describe("lifecycle$", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should emit lifecycle events of the current context", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            lifecycle$().subscribe(expected)
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.destroy()
+        }
+
+        then: expect(expected).toHaveBeenCalledWith(LifecycleHook.OnInit)
+        then: expect(expected).toHaveBeenCalledWith(LifecycleHook.DoCheck)
+        then: expect(expected).toHaveBeenCalledWith(LifecycleHook.AfterViewInit)
+        then: expect(expected).toHaveBeenCalledWith(LifecycleHook.WhenRendered)
+        then: expect(expected).toHaveBeenCalledWith(LifecycleHook.OnDestroy)
+    })
+})
+
+describe("whenRendered$", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should emit each time the view is rendered", () => {
+        let subject, expected: Mock, complete: Mock
+
+        given: expected = fn()
+        given: complete = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            whenRendered$().subscribe({ next: expected, complete })
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.detectChanges()
+            subject.destroy()
+        }
+
+        then: expect(expected).toHaveBeenCalledTimes(2)
+        then: expect(complete).toHaveBeenCalledTimes(1)
+    })
+
+    it("should complete after the component is destroyed", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.detectChanges()
+        given: subject.destroy()
+
+        when: {
+            runInContext(subject.componentInstance, undefined, () => {
+                lifecycle$().subscribe({ complete: expected })
+                whenRendered$().subscribe({ complete: expected })
+            })
+        }
+
+        then: expect(expected).toHaveBeenCalledTimes(2)
+    })
+})
+
+describe("takeUntilDestroyed", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should complete when the component is destroyed", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            NEVER.pipe(takeUntilDestroyed()).subscribe({ complete: expected })
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.destroy()
+        }
+
+        then: expect(expected).toHaveBeenCalledTimes(1)
+    })
+})
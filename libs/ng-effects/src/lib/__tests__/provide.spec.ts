@@ -0,0 +1,142 @@
+import { Component, InjectionToken } from "@angular/core"
+import { ComponentFixture, TestBed } from "@angular/core/testing"
+import { declare, provide } from "./utils"
+import { Connectable } from "../connectable.directive"
+import { inject } from "../connect"
+import { createContextKey, injectContext, provideContext } from "../provide"
+import { Ref, ref } from "../ref"
+import { watchEffect } from "../utils"
+import fn = jest.fn
+import Mock = jest.Mock
+
+const SPY = new InjectionToken<Mock>("SPY")
+const SELECTED = createContextKey<Ref<string>>("selected")
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    selector: "ng9-option",
+    template: ``,
+})
+export class OptionComponent extends Connectable {
+    ngOnConnect() {
+        const spy = inject(SPY)
+        const selected = injectContext(SELECTED)
+        const label = injectContext("label", "none")
+        watchEffect(() => spy(selected.value, label))
+    }
+}
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    selector: "ng9-select",
+    template: `
+        <ng-content></ng-content>
+    `,
+})
+export class SelectComponent extends Connectable {
+    selected = ref("first")
+
+    ngOnConnect() {
+        provideContext(SELECTED, this.selected)
+    }
+}
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    template: `
+        <ng9-select>
+            <div>
+                <ng9-option></ng9-option>
+            </div>
+        </ng9-select>
+    `,
+})
+export class SelectParentComponent {}
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    template: `
+        <ng9-select>
+            <ng-template #option>
+                <ng9-option></ng9-option>
+            </ng-template>
+        </ng9-select>
+        <ng-container *ngIf="open" [ngTemplateOutlet]="option"></ng-container>
+    `,
+})
+export class TemplateParentComponent {
+    open = false
+}
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    template: `
+        <ng9-option></ng9-option>
+    `,
+})
+export class OrphanParentComponent {}
+
+describe("provideContext", () => {
+    beforeEach(() =>
+        declare(
+            OptionComponent,
+            SelectComponent,
+            SelectParentComponent,
+            TemplateParentComponent,
+            OrphanParentComponent,
+        ),
+    )
+    beforeEach(() => provide({ provide: SPY, useValue: fn() }))
+
+    it("should resolve values provided by an ancestor", () => {
+        let subject, expected: Mock
+
+        given: subject = TestBed.createComponent(SelectParentComponent)
+        given: expected = TestBed.inject(SPY)
+
+        when: subject.detectChanges()
+
+        then: expect(expected).toHaveBeenCalledWith("first", "none")
+    })
+
+    it("should share reactive values", () => {
+        let subject, expected: Mock, select: SelectComponent
+
+        given: subject = TestBed.createComponent(SelectParentComponent)
+        given: expected = TestBed.inject(SPY)
+        given: subject.detectChanges()
+        given: select = subject.debugElement.children[0].componentInstance
+
+        when: {
+            select.selected.value = "second"
+            subject.detectChanges()
+        }
+
+        then: expect(expected).toHaveBeenLastCalledWith("second", "none")
+    })
+
+    it("should resolve values for templates rendered outside the provider", () => {
+        let subject: ComponentFixture<TemplateParentComponent>, expected: Mock
+
+        given: subject = TestBed.createComponent(TemplateParentComponent)
+        given: expected = TestBed.inject(SPY)
+        given: subject.detectChanges()
+
+        when: {
+            subject.componentInstance.open = true
+            subject.detectChanges()
+        }
+
+        then: expect(expected).toHaveBeenCalledWith("first", "none")
+    })
+
+    it("should throw when no value was provided", () => {
+        let subject: ComponentFixture<OrphanParentComponent>
+
+        given: subject = TestBed.createComponent(OrphanParentComponent)
+
+        then: expect(() => subject.detectChanges()).toThrowError(
+            `[ngfx] No context provided for key "Symbol(selected)".`,
+        )
+    })
+})
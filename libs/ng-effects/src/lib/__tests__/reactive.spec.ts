@@ -0,0 +1,263 @@
+import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { reactive, watchEffect } from "../utils"
+import fn = jest.fn
+import Mock = jest.Mock
+
+class Address {
+    constructor(public city: string) {}
+}
+
+describe("reactive objects", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should track class instances", () => {
+        let subject, expected: Mock, state: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            state = reactive({ address: new Address("a") })
+            watchEffect(() => expected(state.address.city))
+        }
+
+        when: {
+            subject.detectChanges()
+            state.address.city = "b"
+        }
+
+        then: expect(expected.mock.calls).toEqual([["a"], ["b"]])
+    })
+
+    it("should not proxy values that rely on internal slots", () => {
+        let subject, state: any, date: Date, frozen: object
+
+        given: date = new Date(0)
+        given: frozen = Object.freeze({ count: 1 })
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            state = reactive({ date, frozen })
+        }
+
+        when: subject.detectChanges()
+
+        then: {
+            expect(state.date).toBe(date)
+            expect(state.date.getTime()).toBe(0)
+            expect(state.frozen).toBe(frozen)
+        }
+    })
+})
+
+describe("reactive arrays", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should track iteration", () => {
+        let subject, expected: Mock, list: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            list = reactive([1, 2])
+            watchEffect(() => expected(list.map((value: number) => value * 2)))
+        }
+
+        when: {
+            subject.detectChanges()
+            list.push(3)
+            list[0] = 0
+        }
+
+        then: expect(expected.mock.calls).toEqual([[[2, 4]], [[2, 4, 6]], [[0, 4, 6]]])
+    })
+
+    it("should track length", () => {
+        let subject, expected: Mock, list: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            list = reactive([1, 2])
+            watchEffect(() => expected(list.length))
+        }
+
+        when: {
+            subject.detectChanges()
+            list.pop()
+        }
+
+        then: expect(expected.mock.calls).toEqual([[2], [1]])
+    })
+
+    it("should invalidate effects once per mutation", () => {
+        let subject, expected: Mock, list: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            list = reactive([3, 1, 2])
+            watchEffect(() => expected(list.join()))
+        }
+
+        when: {
+            subject.detectChanges()
+            list.sort()
+            list.reverse()
+            list.splice(0, 2, 4, 5, 6)
+        }
+
+        then: expect(expected.mock.calls).toEqual([["3,1,2"], ["1,2,3"], ["3,2,1"], ["4,5,6,1"]])
+    })
+
+    it("should find reactive elements", () => {
+        let subject, list: any, item: any
+
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            item = {}
+            list = reactive([item])
+        }
+
+        when: subject.detectChanges()
+
+        then: expect(list.includes(item)).toBe(true)
+        then: expect(list.includes(list[0])).toBe(true)
+        then: expect(list.indexOf(list[0])).toBe(0)
+    })
+})
+
+describe("reactive collections", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should track map keys", () => {
+        let subject, expected: Mock, map: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            map = reactive(new Map([["a", 1]]))
+            watchEffect(() => expected(map.get("a")))
+        }
+
+        when: {
+            subject.detectChanges()
+            map.set("b", 2)
+            map.set("a", 2)
+            map.delete("a")
+        }
+
+        then: expect(expected.mock.calls).toEqual([[1], [2], [undefined]])
+    })
+
+    it("should track map size and iteration", () => {
+        let subject, expected: Mock, map: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            map = reactive(new Map([["a", 1]]))
+            watchEffect(() => expected(map.size, Array.from(map.values())))
+        }
+
+        when: {
+            subject.detectChanges()
+            map.set("a", 2)
+            map.set("b", 3)
+            map.clear()
+        }
+
+        then: expect(expected.mock.calls).toEqual([
+            [1, [1]],
+            [1, [2]],
+            [2, [2, 3]],
+            [0, []],
+        ])
+    })
+
+    it("should track set membership", () => {
+        let subject, expected: Mock, selection: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            selection = reactive(new Set<string>())
+            watchEffect(() => expected(selection.has("a")))
+        }
+
+        when: {
+            subject.detectChanges()
+            selection.add("a")
+            selection.add("a")
+            selection.delete("a")
+        }
+
+        then: expect(expected.mock.calls).toEqual([[false], [true], [false]])
+    })
+
+    it("should track weak collections", () => {
+        let subject, expected: Mock, cache: any, key: object
+
+        given: expected = fn()
+        given: key = {}
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            cache = reactive(new WeakMap())
+            watchEffect(() => expected(cache.get(key)))
+        }
+
+        when: {
+            subject.detectChanges()
+            cache.set(key, 1)
+        }
+
+        then: expect(expected.mock.calls).toEqual([[undefined], [1]])
+    })
+
+    it("should only expose the methods of the native collection", () => {
+        let subject, collections: any, result: any[]
+
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            collections = [
+                reactive(new Set()),
+                reactive(new WeakSet()),
+                reactive(new WeakMap()),
+                reactive(new Map()),
+            ]
+        }
+
+        when: {
+            subject.detectChanges()
+            result = collections.map((collection: any) => [
+                typeof collection.get,
+                typeof collection.add,
+                typeof collection.forEach,
+                typeof collection[Symbol.iterator],
+            ])
+        }
+
+        then: expect(result).toEqual([
+            ["undefined", "function", "function", "function"],
+            ["undefined", "function", "undefined", "undefined"],
+            ["function", "undefined", "undefined", "undefined"],
+            ["function", "undefined", "function", "function"],
+        ])
+    })
+
+    it("should make nested values reactive", () => {
+        let subject, expected: Mock, map: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            map = reactive(new Map([["a", { count: 1 }]]))
+            watchEffect(() => expected(map.get("a").count))
+        }
+
+        when: {
+            subject.detectChanges()
+            map.get("a").count = 2
+        }
+
+        then: expect(expected.mock.calls).toEqual([[1], [2]])
+    })
+})
@@ -0,0 +1,116 @@
+import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { isRef, ref, shallowRef, triggerRef, unref } from "../ref"
+import { watchEffect } from "../utils"
+import { computed } from "../computed"
+import fn = jest.fn
+import Mock = jest.Mock
+
+describe("ref", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should rerun effects when the value changes", () => {
+        let subject, expected: Mock, count: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            count = ref(0)
+            watchEffect(() => expected(count.value))
+        }
+
+        when: {
+            subject.detectChanges()
+            count.value = 1
+            count.value = 1
+        }
+
+        then: expect(expected.mock.calls).toEqual([[0], [1]])
+    })
+
+    it("should make nested objects reactive", () => {
+        let subject, expected: Mock, user: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            user = ref({ name: "a" })
+            watchEffect(() => expected(user.value.name))
+        }
+
+        when: {
+            subject.detectChanges()
+            user.value.name = "b"
+            subject.detectChanges()
+        }
+
+        then: expect(expected.mock.calls).toEqual([["a"], ["b"]])
+    })
+
+    it("should only track the value of shallow refs", () => {
+        let subject, expected: Mock, user: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            user = shallowRef({ name: "a" })
+            watchEffect(() => expected(user.value.name))
+        }
+
+        when: {
+            subject.detectChanges()
+            user.value.name = "b"
+            subject.detectChanges()
+        }
+
+        then: expect(expected.mock.calls).toEqual([["a"]])
+    })
+
+    it("should trigger effects manually", () => {
+        let subject, expected: Mock, user: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            user = shallowRef({ name: "a" })
+            watchEffect(() => expected(user.value.name))
+        }
+
+        when: {
+            subject.detectChanges()
+            user.value.name = "b"
+            triggerRef(user)
+        }
+
+        then: expect(expected.mock.calls).toEqual([["a"], ["b"]])
+    })
+
+    it("should not bind refs created outside setup to the last connected component", () => {
+        let subject, count: any
+
+        given: subject = createConnectedComponent()
+        given: subject.detectChanges()
+        given: subject.destroy()
+        given: count = ref(0)
+
+        when: count.value = 1
+
+        then: expect(count.value).toBe(1)
+    })
+
+    it("should unwrap refs", () => {
+        let subject, result: any
+
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => {
+            result = computed(() => 1)
+        }
+
+        when: subject.detectChanges()
+
+        then: expect(isRef(result)).toBe(true)
+        then: expect(isRef(1)).toBe(false)
+        then: expect(unref(result)).toBe(1)
+        then: expect(unref(ref(2))).toBe(2)
+        then: expect(unref(3)).toBe(3)
+    })
+})
@@ -0,0 +1,136 @@
+import { TestBed } from "@angular/core/testing"
+import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { effectScope, onScopeDispose } from "../scope"
+import { watchEffect } from "../utils"
+import { whenRendered } from "../connect"
+import fn = jest.fn
+import Mock = jest.Mock
+
+describe("effectScope", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should stop effects and hooks created inside the scope", () => {
+        let subject, expected: Mock, dispose: Mock, scope: any
+
+        given: expected = fn()
+        given: dispose = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            scope = effectScope()
+            scope.run(() => {
+                watchEffect(() => expected("effect", this.fakeProp))
+                whenRendered(() => expected("rendered"))
+                onScopeDispose(dispose)
+            })
+        }
+
+        when: {
+            subject.componentInstance.fakeProp = 1
+            subject.detectChanges()
+            scope.stop()
+            subject.componentInstance.fakeProp = 2
+            subject.detectChanges()
+        }
+
+        then: expect(expected.mock.calls).toEqual([["effect", 1], ["rendered"]])
+        then: expect(dispose).toHaveBeenCalledTimes(1)
+        then: expect(scope.active).toBe(false)
+    })
+
+    it("should pause and resume effects", () => {
+        let subject, expected: Mock, scope: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            scope = effectScope()
+            scope.run(() => {
+                watchEffect(() => expected(this.fakeProp))
+            })
+        }
+
+        when: {
+            subject.componentInstance.fakeProp = 1
+            subject.detectChanges()
+            scope.pause()
+            subject.componentInstance.fakeProp = 2
+            subject.componentInstance.fakeProp = 3
+            scope.resume()
+        }
+
+        then: expect(expected.mock.calls).toEqual([[1], [3]])
+    })
+
+    it("should stop nested scopes", () => {
+        let subject, expected: Mock, scope: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            scope = effectScope()
+            scope.run(() => {
+                effectScope().run(() => {
+                    watchEffect(() => expected(this.fakeProp))
+                })
+            })
+        }
+
+        when: {
+            subject.componentInstance.fakeProp = 1
+            subject.detectChanges()
+            scope.stop()
+            subject.componentInstance.fakeProp = 2
+        }
+
+        then: expect(expected.mock.calls).toEqual([[1]])
+    })
+
+    it("should return a stop handle from watchEffect", () => {
+        let subject, expected: Mock, stop: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            stop = watchEffect(() => expected(this.fakeProp))
+        }
+
+        when: {
+            subject.componentInstance.fakeProp = 1
+            subject.detectChanges()
+            stop()
+            subject.componentInstance.fakeProp = 2
+        }
+
+        then: expect(expected.mock.calls).toEqual([[1]])
+    })
+    it("should run effects created in a scope after setup on the owning component", () => {
+        let subject, other, expected: Mock, scope: any, host: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            host = this
+            scope = effectScope()
+        }
+        given: subject.componentInstance.fakeProp = 0
+        given: subject.detectChanges()
+
+        when: {
+            scope.run(() => {
+                watchEffect(() => expected(host.fakeProp))
+            })
+            other = TestBed.createComponent(ConnectedComponent)
+            other.detectChanges()
+            subject.componentInstance.fakeProp = 1
+            subject.detectChanges()
+        }
+
+        then: expect(expected.mock.calls).toEqual([[0], [1]])
+    })
+
+    it("should throw when effects are created outside of setup", () => {
+        then: expect(() => effectScope().run(() => watchEffect(() => {}))).toThrowError(
+            "[ngfx] Effects can only be created during setup or inside an effect scope created during setup.",
+        )
+    })
+})
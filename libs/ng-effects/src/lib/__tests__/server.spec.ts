@@ -0,0 +1,171 @@
+import { NgZone, PLATFORM_ID } from "@angular/core"
+import { TestBed } from "@angular/core/testing"
+import { makeStateKey, TransferState } from "@angular/platform-browser"
+import { interval } from "rxjs"
+import { ConnectedComponent, createConnectedComponent, declare, provide } from "./utils"
+import { afterViewInit, onChanges, whenRendered } from "../connect"
+import { onServerPrefetch, transferState } from "../server"
+import { effect, watchEffect } from "../utils"
+import fn = jest.fn
+import Mock = jest.Mock
+
+describe("server side rendering", () => {
+    beforeEach(() => declare(ConnectedComponent))
+    beforeEach(() => provide(TransferState))
+
+    describe("on the server", () => {
+        beforeEach(() => provide({ provide: PLATFORM_ID, useValue: "server" }))
+
+        it("should skip render hooks", () => {
+            let subject, expected: Mock
+
+            given: expected = fn()
+            given: subject = createConnectedComponent()
+            given: subject.componentInstance.ngOnConnect = () => {
+                onChanges(() => expected("onChanges"))
+                afterViewInit(() => expected("afterViewInit"))
+                whenRendered(() => expected("whenRendered"))
+                watchEffect(() => expected("post"), { flush: "post" })
+            }
+
+            when: subject.detectChanges()
+
+            then: expect(expected.mock.calls).toEqual([["onChanges"]])
+        })
+
+        it("should not hold rendering for timers started by effects", () => {
+            let subject, ngZone: NgZone, subscription: any, pending: boolean[]
+
+            given: pending = []
+            given: subject = createConnectedComponent()
+            given: ngZone = TestBed.inject(NgZone)
+            given: subject.componentInstance.ngOnConnect = () => {
+                effect(() => (subscription = interval(1000).subscribe()))
+            }
+
+            when: {
+                subject.detectChanges()
+                pending.push(ngZone.hasPendingMacrotasks, subscription.closed)
+                subject.destroy()
+                pending.push(subscription.closed)
+            }
+
+            then: expect(pending).toEqual([false, false, true])
+        })
+
+        it("should hold rendering for effects with the ssr option", () => {
+            let subject, ngZone: NgZone, pending: boolean[]
+
+            given: pending = []
+            given: subject = createConnectedComponent()
+            given: ngZone = TestBed.inject(NgZone)
+            given: subject.componentInstance.ngOnConnect = () => {
+                effect(() => interval(1000).subscribe(), { ssr: true })
+            }
+
+            when: {
+                subject.detectChanges()
+                pending.push(ngZone.hasPendingMacrotasks)
+                subject.destroy()
+                pending.push(ngZone.hasPendingMacrotasks)
+            }
+
+            then: expect(pending).toEqual([true, false])
+        })
+
+        it("should update derived state when server prefetch completes", async () => {
+            let subject: any
+
+            given: subject = createConnectedComponent()
+            given: subject.componentInstance.items = []
+            given: subject.componentInstance.total = 0
+            given: subject.componentInstance.ngOnConnect = function(this: any) {
+                onServerPrefetch(() =>
+                    Promise.resolve([1, 2, 3]).then(items => (this.items = items)),
+                )
+                watchEffect(() => (this.total = this.items.length))
+            }
+
+            when: {
+                subject.detectChanges()
+                await Promise.resolve()
+                await Promise.resolve()
+            }
+
+            then: expect(subject.componentInstance.total).toBe(3)
+        })
+
+        it("should hold rendering until server prefetch completes", async () => {
+            let subject, resolve: any, ngZone: NgZone, pending: boolean[]
+
+            given: pending = []
+            given: subject = createConnectedComponent()
+            given: ngZone = TestBed.inject(NgZone)
+            given: subject.componentInstance.ngOnConnect = () => {
+                onServerPrefetch(() => new Promise(res => (resolve = res)))
+            }
+
+            when: {
+                subject.detectChanges()
+                pending.push(ngZone.hasPendingMacrotasks)
+                resolve()
+                await Promise.resolve()
+                pending.push(ngZone.hasPendingMacrotasks)
+            }
+
+            then: expect(pending).toEqual([true, false])
+        })
+
+        it("should serialize transferred state", () => {
+            let subject, transfer: TransferState
+
+            given: subject = createConnectedComponent()
+            given: transfer = TestBed.inject(TransferState)
+            given: subject.componentInstance.ngOnConnect = function(this: any) {
+                transferState("todos", ["todos"])
+                this.todos = ["server"]
+            }
+
+            when: subject.detectChanges()
+
+            then: expect(JSON.parse(transfer.toJson())).toEqual({
+                "ngfx.todos": { todos: ["server"] },
+            })
+        })
+    })
+
+    describe("on the client", () => {
+        beforeEach(() => provide({ provide: PLATFORM_ID, useValue: "browser" }))
+
+        it("should not run server prefetch", () => {
+            let subject, expected: Mock
+
+            given: expected = fn(() => Promise.resolve())
+            given: subject = createConnectedComponent()
+            given: subject.componentInstance.ngOnConnect = () => {
+                onServerPrefetch(expected)
+            }
+
+            when: subject.detectChanges()
+
+            then: expect(expected).not.toHaveBeenCalled()
+        })
+
+        it("should restore transferred state", () => {
+            let subject, restored: any, transfer: TransferState
+
+            given: subject = createConnectedComponent()
+            given: transfer = TestBed.inject(TransferState)
+            given: transfer.set(makeStateKey("ngfx.todos"), { todos: ["server"] })
+            given: subject.componentInstance.ngOnConnect = () => {
+                restored = transferState("todos", ["todos"])
+            }
+
+            when: subject.detectChanges()
+
+            then: expect(restored).toBe(true)
+            then: expect(subject.componentInstance.todos).toEqual(["server"])
+            then: expect(transfer.hasKey(makeStateKey("ngfx.todos"))).toBe(false)
+        })
+    })
+})
@@ -0,0 +1,163 @@
+import { InjectFlags, Injectable, InjectionToken, NgModule, NgModuleRef } from "@angular/core"
+import { fakeAsync, flushMicrotasks, TestBed } from "@angular/core/testing"
+import { ConnectableService } from "../connectable.service"
+import { inject, onDestroy } from "../connect"
+import { reactive, watchEffect } from "../utils"
+import { ref } from "../ref"
+import { ConnectedComponent, createConnectedComponent, declare, provide } from "./utils"
+import fn = jest.fn
+import Mock = jest.Mock
+
+const SPY = new InjectionToken<Mock>("SPY")
+const MISSING = new InjectionToken<Mock>("MISSING")
+
+@Injectable()
+class CountService extends ConnectableService {
+    count = 0
+
+    ngOnConnect() {
+        const spy = inject(SPY)
+        watchEffect(() => spy("count", this.count))
+        watchEffect(() => spy("post", this.count), { flush: "post" })
+        onDestroy(() => spy("destroyed"))
+    }
+}
+
+const total = ref(0)
+
+@Injectable()
+class TotalService extends ConnectableService {
+    items?: { count: number }
+
+    ngOnConnect() {
+        const spy = inject(SPY)
+        watchEffect(() => spy("total", total.value))
+        watchEffect(() => spy("items", this.items && this.items.count))
+    }
+}
+
+@NgModule()
+class EffectsModule extends ConnectableService {
+    ngOnConnect() {
+        inject(SPY)("module", inject(MISSING, InjectFlags.Optional))
+    }
+}
+
+describe("ConnectableService", () => {
+    beforeEach(() =>
+        provide(CountService, {
+            provide: SPY,
+            useValue: fn(),
+        }),
+    )
+
+    it("should run setup after the service is created", fakeAsync(() => {
+        let expected: Mock
+
+        given: expected = TestBed.inject(SPY)
+
+        when: {
+            TestBed.inject(CountService)
+            flushMicrotasks()
+        }
+
+        then: expect(expected.mock.calls).toEqual([
+            ["count", 0],
+            ["post", 0],
+        ])
+    }))
+
+    it("should flush effects when reactive dependencies change", fakeAsync(() => {
+        let subject: CountService, expected: Mock
+
+        given: expected = TestBed.inject(SPY)
+        given: subject = TestBed.inject(CountService)
+        given: flushMicrotasks()
+
+        when: {
+            expected.mockClear()
+            subject.count = 1
+        }
+
+        then: expect(expected.mock.calls).toEqual([
+            ["count", 1],
+            ["post", 1],
+        ])
+    }))
+
+    it("should run teardown logic when the injector is destroyed", fakeAsync(() => {
+        let expected: Mock
+
+        given: expected = TestBed.inject(SPY)
+        given: TestBed.inject(CountService)
+        given: flushMicrotasks()
+
+        when: TestBed.inject(NgModuleRef).destroy()
+
+        then: expect(expected).toHaveBeenCalledWith("destroyed")
+    }))
+
+    it("should skip setup when destroyed before it runs", fakeAsync(() => {
+        let expected: Mock
+
+        given: expected = TestBed.inject(SPY)
+        given: TestBed.inject(CountService)
+
+        when: {
+            TestBed.inject(NgModuleRef).destroy()
+            flushMicrotasks()
+        }
+
+        then: expect(expected).not.toHaveBeenCalled()
+    }))
+
+    it("should connect NgModules", fakeAsync(() => {
+        let expected: Mock
+
+        given: TestBed.configureTestingModule({ imports: [EffectsModule] })
+        given: expected = TestBed.inject(SPY)
+
+        when: flushMicrotasks()
+
+        then: expect(expected).toHaveBeenCalledWith("module", null)
+    }))
+
+    it("should flush effects when refs owned elsewhere change", fakeAsync(() => {
+        let expected: Mock
+
+        given: TestBed.configureTestingModule({ providers: [TotalService] })
+        given: expected = TestBed.inject(SPY)
+        given: TestBed.inject(TotalService)
+        given: flushMicrotasks()
+
+        when: {
+            expected.mockClear()
+            total.value = 5
+        }
+
+        then: expect(expected.mock.calls).toEqual([["total", 5]])
+    }))
+
+    it("should flush effects when reactive state owned by a component changes", fakeAsync(() => {
+        let subject: any, service: TotalService, expected: Mock
+
+        given: declare(ConnectedComponent)
+        given: TestBed.configureTestingModule({ providers: [TotalService] })
+        given: subject = createConnectedComponent()
+        given: expected = TestBed.inject(SPY)
+        given: subject.componentInstance.ngOnConnect = () => {
+            subject.componentInstance.items = reactive({ count: 0 })
+        }
+        given: subject.detectChanges()
+        given: service = TestBed.inject(TotalService)
+        given: service.items = subject.componentInstance.items
+        given: flushMicrotasks()
+
+        when: {
+            expected.mockClear()
+            subject.componentInstance.items.count = 2
+        }
+
+        then: expect(expected.mock.calls).toEqual([["items", 2]])
+    }))
+})
@@ -0,0 +1,168 @@
+import { Component, ErrorHandler, InjectionToken } from "@angular/core"
+import { fakeAsync, flushMicrotasks, TestBed } from "@angular/core/testing"
+import { Subject } from "rxjs"
+import { ConnectedComponent, createConnectedComponent, declare, provide } from "./utils"
+import { Connectable } from "../connectable.directive"
+import { inject, onChanges } from "../connect"
+import { SuspenseModule } from "../suspense.module"
+import fn = jest.fn
+import Mock = jest.Mock
+
+const SETUP = new InjectionToken<Promise<any>>("SETUP")
+
+function defer() {
+    let resolve: (value?: any) => void = () => {}
+    let reject: (reason?: any) => void = () => {}
+    const promise = new Promise((res, rej) => {
+        resolve = res
+        reject = rej
+    })
+    return { promise, resolve, reject }
+}
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    selector: "ng9-async-child",
+    template: `
+        {{ connectStatus }}
+    `,
+})
+export class AsyncChildComponent extends Connectable {
+    ngOnConnect() {
+        return inject(SETUP)
+    }
+}
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    template: `
+        <ngfx-suspense [fallback]="loading">
+            <ng9-async-child></ng9-async-child>
+        </ngfx-suspense>
+        <ng-template #loading>loading</ng-template>
+    `,
+})
+export class SuspenseHostComponent {}
+
+describe("async setup", () => {
+    let deferred: ReturnType<typeof defer>, handler: Mock
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({
+            imports: [SuspenseModule],
+        })
+    })
+    beforeEach(() => declare(ConnectedComponent, AsyncChildComponent, SuspenseHostComponent))
+    beforeEach(() => {
+        deferred = defer()
+        handler = fn()
+        provide(
+            { provide: SETUP, useValue: deferred.promise },
+            { provide: ErrorHandler, useValue: { handleError: handler } },
+        )
+    })
+
+    it("should be pending until async setup resolves", fakeAsync(() => {
+        let subject, status: string[]
+
+        given: status = []
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => deferred.promise
+
+        when: {
+            subject.detectChanges()
+            status.push(subject.componentInstance.connectStatus)
+            deferred.resolve()
+            flushMicrotasks()
+            status.push(subject.componentInstance.connectStatus)
+        }
+
+        then: expect(status).toEqual(["pending", "ready"])
+    }))
+
+    it("should be ready when setup is synchronous", () => {
+        let subject
+
+        given: subject = createConnectedComponent()
+
+        when: subject.detectChanges()
+
+        then: expect(subject.componentInstance.connectStatus).toBe("ready")
+    })
+
+    it("should run hooks registered before the first await", fakeAsync(() => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = async () => {
+            onChanges(expected)
+            await deferred.promise
+        }
+
+        when: {
+            subject.detectChanges()
+            deferred.resolve()
+            flushMicrotasks()
+        }
+
+        then: expect(expected).toHaveBeenCalledTimes(1)
+    }))
+
+    it("should wait for observable setup to complete", fakeAsync(() => {
+        let subject, source: Subject<void>, status: string[]
+
+        given: status = []
+        given: source = new Subject()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => source
+
+        when: {
+            subject.detectChanges()
+            source.next()
+            flushMicrotasks()
+            status.push(subject.componentInstance.connectStatus)
+            source.complete()
+            flushMicrotasks()
+            status.push(subject.componentInstance.connectStatus)
+        }
+
+        then: expect(status).toEqual(["pending", "ready"])
+    }))
+
+    it("should report async setup errors", fakeAsync(() => {
+        let subject, error: Error
+
+        given: error = new Error("setup failed")
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.ngOnConnect = () => deferred.promise
+
+        when: {
+            subject.detectChanges()
+            deferred.reject(error)
+            flushMicrotasks()
+        }
+
+        then: expect(subject.componentInstance.connectStatus).toBe("error")
+        then: expect(subject.componentInstance.connectError).toBe(error)
+        then: expect(handler).toHaveBeenCalledWith(error)
+    }))
+
+    it("should render the suspense fallback until descendants are ready", fakeAsync(() => {
+        let subject, content: string[]
+
+        given: content = []
+        given: subject = TestBed.createComponent(SuspenseHostComponent)
+
+        when: {
+            subject.detectChanges()
+            content.push(subject.nativeElement.textContent.trim())
+            deferred.resolve()
+            flushMicrotasks()
+            subject.detectChanges()
+            content.push(subject.nativeElement.textContent.trim())
+        }
+
+        then: expect(content).toEqual(["loading", "ready"])
+    }))
+})
@@ -0,0 +1,123 @@
+import { ComponentFixture, fakeAsync, flushMicrotasks } from "@angular/core/testing"
+import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { ref } from "../ref"
+import { compose, Trait, trait } from "../traits"
+import { connectable } from "../providers"
+import { ConnectableFunction } from "../interfaces"
+import fn = jest.fn
+import Mock = jest.Mock
+
+describe("compose", () => {
+    let spy: Mock, focusable: Trait<{ tabIndex: number }>, selectable: Trait<{ selected: boolean }>
+
+    beforeEach(() => declare(ConnectedComponent))
+    beforeEach(() => {
+        spy = fn()
+        focusable = trait("focusable", () => {
+            spy("focusable")
+            return { focused: ref(false) }
+        })
+        selectable = trait("selectable", () => spy("selectable"), { requires: [focusable] })
+    })
+
+    it("should initialise required traits first", () => {
+        let subject, disabled: Trait
+
+        given: disabled = trait("disabled", () => spy("disabled"))
+        given: subject = createConnectedComponent(connectable(compose(disabled, selectable)))
+
+        when: subject.detectChanges()
+
+        then: expect(spy.mock.calls).toEqual([["disabled"], ["focusable"], ["selectable"]])
+    })
+
+    it("should initialise each trait once", () => {
+        let subject
+
+        given: subject = createConnectedComponent(connectable(compose(selectable, focusable)))
+
+        when: subject.detectChanges()
+
+        then: expect(spy.mock.calls).toEqual([["focusable"], ["selectable"]])
+    })
+
+    it("should initialise traits shared by several compositions once", () => {
+        let subject, disabled: Trait
+
+        given: disabled = trait("disabled", () => spy("disabled"))
+        given: subject = createConnectedComponent([
+            connectable(compose(selectable)),
+            connectable(compose(disabled, focusable)),
+        ])
+
+        when: subject.detectChanges()
+
+        then: expect(spy.mock.calls).toEqual([["focusable"], ["selectable"], ["disabled"]])
+    })
+
+    it("should pass the composed context to traits", () => {
+        let subject,
+            labelled: Trait<{ label: string }>,
+            composed: ConnectableFunction<{ label: string }>
+
+        given: labelled = trait("labelled", (context: { label: string }) => spy(context.label))
+        given: composed = compose(labelled)
+        given: subject = createConnectedComponent(connectable(composed))
+        given: subject.componentInstance.label = "name"
+
+        when: subject.detectChanges()
+
+        then: expect(spy).toHaveBeenCalledWith("name")
+    })
+
+    it("should expose bindings returned by traits", () => {
+        let subject: ComponentFixture<ConnectedComponent>
+
+        given: subject = createConnectedComponent(connectable(compose(selectable)))
+
+        when: subject.detectChanges()
+
+        then: expect(subject.componentInstance.focused).toBe(false)
+    })
+
+    it("should stay pending until async traits settle", fakeAsync(() => {
+        let subject: ComponentFixture<ConnectedComponent>, loaded: Trait, status: string[]
+
+        given: status = []
+        given: loaded = trait("loaded", () => Promise.resolve())
+        given: subject = createConnectedComponent(connectable(compose(loaded, selectable)))
+
+        when: {
+            subject.detectChanges()
+            status.push(subject.componentInstance.connectStatus)
+            flushMicrotasks()
+            status.push(subject.componentInstance.connectStatus)
+        }
+
+        then: expect(status).toEqual(["pending", "ready"])
+        then: expect(subject.componentInstance.focused).toBe(false)
+    }))
+
+    it("should throw when traits return the same binding", () => {
+        let subject: ComponentFixture<ConnectedComponent>, focus: Trait
+
+        given: focus = trait("focus", () => ({ focused: ref(true) }))
+        given: subject = createConnectedComponent(connectable(compose(focusable, focus)))
+
+        then: expect(() => subject.detectChanges()).toThrowError(
+            `[ngfx] Trait "focus" redefines setup binding "focused".`,
+        )
+    })
+
+    it("should throw on circular dependencies", () => {
+        let first: Trait, second: Trait
+
+        given: first = trait("first", () => {})
+        given: second = trait("second", () => {}, { requires: [first] })
+        given: (first.requires as Trait[]).push(second)
+
+        then: expect(() => compose(first)).toThrowError(
+            "[ngfx] Circular trait dependency: first -> second -> first.",
+        )
+    })
+})
@@ -10,7 +10,7 @@ import {
     ViewContainerRef,
 } from "@angular/core"
 import { Connectable } from "../connectable.directive"
-import { TestBed } from "@angular/core/testing"
+import { ComponentFixture, TestBed } from "@angular/core/testing"
 
 export const FAKE_INJECTOR = new InjectionToken<Injector>("FAKE_INJECTOR")
 
@@ -52,6 +52,13 @@ export function createConnectedComponent(providers: Provider[] = []) {
     }).createComponent(ConnectedComponent)
 }
 
+export function detectChangesAfterEach(fixture: ComponentFixture<any>, values: any[]) {
+    for (const value of values) {
+        fixture.componentInstance.fakeProp = value
+        fixture.detectChanges()
+    }
+}
+
 export function createInjector(providers: StaticProvider[] = []) {
     return Injector.create({ parent: TestBed, providers })
 }
@@ -0,0 +1,231 @@
+import { ConnectedComponent, createConnectedComponent, declare } from "./utils"
+import { watch, watchInput } from "../watch"
+import { SimpleChange } from "@angular/core"
+import fn = jest.fn
+import Mock = jest.Mock
+
+describe("watch", () => {
+    beforeEach(() => declare(ConnectedComponent))
+
+    it("should call the callback with the new and old value when the source changes", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.ngOnConnect = () => {
+            watch("count", expected)
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.count = 1
+            subject.componentInstance.count = 2
+        }
+
+        then: expect(expected).toHaveBeenCalledTimes(2)
+        then: expect(expected).toHaveBeenCalledWith(1, 0, jasmine.any(Function))
+        then: expect(expected).toHaveBeenCalledWith(2, 1, jasmine.any(Function))
+    })
+
+    it("should call the callback immediately", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            watch(() => this.count, expected, { immediate: true })
+        }
+
+        when: subject.detectChanges()
+
+        then: expect(expected).toHaveBeenCalledWith(0, undefined, jasmine.any(Function))
+    })
+
+    it("should watch multiple sources", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.name = "a"
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            watch(["count", () => this.name], expected)
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.name = "b"
+        }
+
+        then: expect(expected).toHaveBeenCalledWith([0, "b"], [0, "a"], jasmine.any(Function))
+    })
+
+    it("should not call the callback when the computed value is the same", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            watch(() => this.count > 5, expected)
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.count = 1
+            subject.componentInstance.count = 2
+        }
+
+        then: expect(expected).toHaveBeenCalledTimes(0)
+    })
+
+    it("should watch nested values deeply", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.user = { address: { city: "a" } }
+        given: subject.componentInstance.ngOnConnect = () => {
+            watch("user", expected, { deep: true })
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.user.address.city = "b"
+            subject.detectChanges()
+        }
+
+        then: expect(expected).toHaveBeenCalledTimes(1)
+    })
+
+    it("should run cleanup callbacks before the next change", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.ngOnConnect = () => {
+            watch("count", (value, oldValue, onCleanup) => onCleanup(() => expected(value)))
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.count = 1
+            subject.componentInstance.count = 2
+        }
+
+        then: expect(expected.mock.calls).toEqual([[1]])
+    })
+
+    it("should keep cleanup callbacks when the watched value is the same", () => {
+        let subject, expected: Mock, cleanup: Mock
+
+        given: expected = fn()
+        given: cleanup = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.ngOnConnect = function(this: any) {
+            watch(
+                () => this.count > 0,
+                (value, oldValue, onCleanup) => {
+                    expected(value)
+                    onCleanup(cleanup)
+                },
+            )
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.count = 1
+            subject.componentInstance.count = 5
+        }
+
+        then: {
+            expect(expected.mock.calls).toEqual([[true]])
+            expect(cleanup).toHaveBeenCalledTimes(0)
+        }
+    })
+
+    it("should run cleanup callbacks when the watcher stops", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.ngOnConnect = () => {
+            watch("count", (value, oldValue, onCleanup) => onCleanup(() => expected(value)))
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.count = 1
+            subject.destroy()
+        }
+
+        then: expect(expected.mock.calls).toEqual([[1]])
+    })
+
+    it("should stop watching", () => {
+        let subject, expected: Mock, stop: any
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.ngOnConnect = () => {
+            stop = watch("count", expected)
+        }
+
+        when: {
+            subject.detectChanges()
+            stop()
+            subject.componentInstance.count = 1
+        }
+
+        then: expect(expected).toHaveBeenCalledTimes(0)
+    })
+
+    it("should only call the input callback when the input changes", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.name = "a"
+        given: subject.componentInstance.ngOnConnect = () => {
+            watchInput("count", expected)
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.name = "b"
+            subject.componentInstance.count = 1
+        }
+
+        then: expect(expected.mock.calls).toEqual([
+            [0, undefined, new SimpleChange(undefined, 0, true)],
+            [1, 0, new SimpleChange(0, 1, false)],
+        ])
+    })
+
+    it("should dispose the input callback teardown when the input changes", () => {
+        let subject, expected: Mock
+
+        given: expected = fn()
+        given: subject = createConnectedComponent()
+        given: subject.componentInstance.count = 0
+        given: subject.componentInstance.ngOnConnect = () => {
+            watchInput("count", value => () => expected(value))
+        }
+
+        when: {
+            subject.detectChanges()
+            subject.componentInstance.name = "b"
+            subject.componentInstance.count = 1
+            subject.destroy()
+        }
+
+        then: expect(expected.mock.calls).toEqual([[0], [1]])
+    })
+})
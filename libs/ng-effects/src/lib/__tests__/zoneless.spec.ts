@@ -0,0 +1,108 @@
+import { Component, InjectionToken } from "@angular/core"
+import { fakeAsync, flushMicrotasks, TestBed } from "@angular/core/testing"
+import { declare, provide } from "./utils"
+import { Connectable } from "../connectable.directive"
+import { inject, whenRendered } from "../connect"
+import { zoneless } from "../providers"
+import fn = jest.fn
+import Mock = jest.Mock
+
+const SPY = new InjectionToken<Mock>("SPY")
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    template: `
+        {{ count }}
+    `,
+    providers: [zoneless()],
+})
+export class ZonelessComponent extends Connectable {
+    count = 0
+
+    ngOnConnect() {
+        whenRendered(inject(SPY))
+    }
+}
+
+// noinspection AngularMissingOrInvalidDeclarationInModule
+@Component({
+    template: `
+        {{ count }}
+    `,
+})
+export class ZoneComponent extends Connectable {
+    count = 0
+
+    ngOnConnect() {
+        whenRendered(inject(SPY))
+    }
+}
+
+describe("zoneless", () => {
+    let rendered: Mock
+
+    beforeEach(() => declare(ZonelessComponent, ZoneComponent))
+    beforeEach(() => {
+        rendered = fn()
+        provide({ provide: SPY, useValue: rendered })
+    })
+
+    it("should render the component after a write", fakeAsync(() => {
+        let subject
+
+        given: subject = TestBed.createComponent(ZonelessComponent)
+        given: subject.detectChanges()
+
+        when: {
+            subject.componentInstance.count = 1
+            flushMicrotasks()
+        }
+
+        then: expect(subject.nativeElement.textContent.trim()).toBe("1")
+    }))
+
+    it("should coalesce writes into a single render", fakeAsync(() => {
+        let subject
+
+        given: subject = TestBed.createComponent(ZonelessComponent)
+        given: subject.detectChanges()
+
+        when: {
+            subject.componentInstance.count = 1
+            subject.componentInstance.count = 2
+            subject.componentInstance.count = 3
+            flushMicrotasks()
+        }
+
+        then: expect(subject.nativeElement.textContent.trim()).toBe("3")
+        then: expect(rendered).toHaveBeenCalledTimes(2)
+    }))
+
+    it("should not render after a write without the zoneless provider", fakeAsync(() => {
+        let subject
+
+        given: subject = TestBed.createComponent(ZoneComponent)
+        given: subject.detectChanges()
+
+        when: {
+            subject.componentInstance.count = 1
+            flushMicrotasks()
+        }
+
+        then: expect(subject.nativeElement.textContent.trim()).toBe("0")
+    }))
+
+    it("should not render destroyed components", fakeAsync(() => {
+        let subject
+
+        given: subject = TestBed.createComponent(ZonelessComponent)
+        given: subject.detectChanges()
+
+        when: {
+            subject.componentInstance.count = 1
+            subject.destroy()
+        }
+
+        then: expect(() => flushMicrotasks()).not.toThrow()
+    }))
+})
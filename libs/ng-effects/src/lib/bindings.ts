@@ -0,0 +1,49 @@
+import { isDevMode } from "@angular/core"
+import { Context, SetupBindings, SetupResult } from "./interfaces"
+import { isRef, Ref } from "./ref"
+import { ComputedRef } from "./computed"
+
+export type UnwrapBindings<T> = {
+    [K in keyof T]: T[K] extends Ref<infer V> ? V : T[K] extends ComputedRef<infer C> ? C : T[K]
+}
+
+export function isBindings(value: SetupResult): value is SetupBindings {
+    if (typeof value !== "object" || value === null) {
+        return false
+    }
+    const proto = Object.getPrototypeOf(value)
+    return proto === Object.prototype || proto === null
+}
+
+function throwBindingConflictError(context: Context, key: string): never {
+    throw new Error(
+        `[ngfx] Setup binding "${key}" is already defined on "${context.constructor.name}".`,
+    )
+}
+
+export function exposeBindings(context: Context, results: SetupResult[]) {
+    for (const result of results) {
+        if (!isBindings(result)) {
+            continue
+        }
+        const bindings = result as SetupBindings
+        for (const key of Object.keys(bindings)) {
+            const value = bindings[key]
+            if (isDevMode() && Object.prototype.hasOwnProperty.call(context, key)) {
+                throwBindingConflictError(context, key)
+            }
+            Object.defineProperty(
+                context,
+                key,
+                isRef(value)
+                    ? {
+                          get: () => value.value,
+                          set: next => (value.value = next),
+                          configurable: true,
+                          enumerable: true,
+                      }
+                    : { value, writable: true, configurable: true, enumerable: true },
+            )
+        }
+    }
+}
@@ -0,0 +1,198 @@
+import { addDeps, toRawValue, trackIteration, triggerIteration } from "./context"
+import { notifyChange } from "./effects"
+import { Context } from "./interfaces"
+
+export type Collection = Map<any, any> | Set<any> | WeakMap<any, any> | WeakSet<any>
+
+export interface CollectionMethods {
+    [key: string]: Function
+}
+
+interface KeyState {
+    version: number
+}
+
+const keyStatesMap = new WeakMap<object, Map<any, KeyState> | WeakMap<any, KeyState>>()
+
+const iterableMethods = ["forEach", "keys", "values", "entries", "clear"]
+const mapMethods = ["get", "has", "set", "delete", ...iterableMethods]
+const setMethods = ["has", "add", "delete", ...iterableMethods]
+const weakMapMethods = ["get", "has", "set", "delete"]
+const weakSetMethods = ["has", "add", "delete"]
+
+export function isCollection(value: object): value is Collection {
+    return (
+        value instanceof Map ||
+        value instanceof Set ||
+        value instanceof WeakMap ||
+        value instanceof WeakSet
+    )
+}
+
+function getMethodNames(target: Collection) {
+    if (target instanceof Map) {
+        return mapMethods
+    }
+    if (target instanceof Set) {
+        return setMethods
+    }
+    return target instanceof WeakMap ? weakMapMethods : weakSetMethods
+}
+
+function getKeyStates(target: Collection) {
+    let keyStates = keyStatesMap.get(target)
+    if (!keyStates) {
+        keyStates =
+            target instanceof WeakMap || target instanceof WeakSet ? new WeakMap() : new Map()
+        keyStatesMap.set(target, keyStates)
+    }
+    return keyStates
+}
+
+function trackKey(target: Collection, key: any) {
+    const keyStates = getKeyStates(target)
+    let keyState = keyStates.get(key)
+    if (!keyState) {
+        keyState = { version: 0 }
+        keyStates.set(key, keyState)
+    }
+    addDeps(keyState, "version")
+}
+
+function triggerKey(target: Collection, key: any) {
+    const keyState = getKeyStates(target).get(key)
+    if (keyState) {
+        keyState.version += 1
+    }
+}
+
+function triggerAll(target: Collection) {
+    const keyStates = getKeyStates(target)
+    if (keyStates instanceof Map) {
+        for (const keyState of keyStates.values()) {
+            keyState.version += 1
+        }
+    }
+    triggerIteration(target)
+}
+
+export function getCollectionProperty(
+    target: Collection,
+    p: PropertyKey,
+    methods: CollectionMethods,
+) {
+    if (p === "size") {
+        trackIteration(target)
+        return Reflect.get(target, p, target)
+    }
+    if (typeof p === "string" && methods.hasOwnProperty(p)) {
+        return methods[p]
+    }
+    if (p === Symbol.iterator) {
+        return methods[target instanceof Map ? "entries" : "values"]
+    }
+    const value = Reflect.get(target, p, target)
+    return typeof value === "function" ? value.bind(target) : value
+}
+
+export function createCollectionMethods(
+    target: Collection,
+    proxy: Collection,
+    context: Context,
+    wrap: (value: any) => any,
+): CollectionMethods {
+    const map = target as Map<any, any>
+    const set = target as Set<any>
+
+    function iterate(method: "keys" | "values" | "entries") {
+        return function() {
+            trackIteration(target)
+            const iterator = (map as any)[method]()
+            return {
+                next() {
+                    const { value, done } = iterator.next()
+                    return done
+                        ? { value, done }
+                        : {
+                              value:
+                                  method === "entries"
+                                      ? [wrap(value[0]), wrap(value[1])]
+                                      : wrap(value),
+                              done,
+                          }
+                },
+                [Symbol.iterator]() {
+                    return this
+                },
+            }
+        }
+    }
+
+    const methods: CollectionMethods = {
+        get(key: any) {
+            const rawKey = toRawValue(key)
+            trackKey(target, rawKey)
+            return wrap(map.get(rawKey))
+        },
+        has(key: any) {
+            const rawKey = toRawValue(key)
+            trackKey(target, rawKey)
+            return map.has(rawKey)
+        },
+        forEach(callback: Function, thisArg?: any) {
+            trackIteration(target)
+            map.forEach((value, key) => callback.call(thisArg, wrap(value), wrap(key), proxy))
+        },
+        keys: iterate("keys"),
+        values: iterate("values"),
+        entries: iterate("entries"),
+        set(key: any, value: any) {
+            const rawKey = toRawValue(key)
+            const rawValue = toRawValue(value)
+            const hadKey = map.has(rawKey)
+            const oldValue = map.get(rawKey)
+            map.set(rawKey, rawValue)
+            if (!hadKey || !Object.is(oldValue, rawValue)) {
+                triggerKey(target, rawKey)
+                triggerIteration(target)
+                notifyChange(context, proxy)
+            }
+            return proxy
+        },
+        add(value: any) {
+            const rawValue = toRawValue(value)
+            if (!set.has(rawValue)) {
+                set.add(rawValue)
+                triggerKey(target, rawValue)
+                triggerIteration(target)
+                notifyChange(context, proxy)
+            }
+            return proxy
+        },
+        delete(key: any) {
+            const rawKey = toRawValue(key)
+            const deleted = map.delete(rawKey)
+            if (deleted) {
+                triggerKey(target, rawKey)
+                triggerIteration(target)
+                notifyChange(context, proxy)
+            }
+            return deleted
+        },
+        clear() {
+            if (set.size) {
+                set.clear()
+                triggerAll(target)
+                notifyChange(context, proxy)
+            }
+        },
+    }
+
+    // Only the methods of the native collection are exposed, the rest stay undefined.
+    const table: CollectionMethods = {}
+    for (const name of getMethodNames(target)) {
+        table[name] = methods[name]
+    }
+
+    return table
+}
@@ -0,0 +1,72 @@
+import { IterableDiffers } from "@angular/core"
+import {
+    addDeps,
+    collectDeps,
+    DepsMap,
+    flushDeps,
+    getValues,
+    hasChanges,
+    refSymbol,
+} from "./context"
+import { inject } from "./connect"
+import { Ref } from "./ref"
+
+export type ComputedGetter<T> = () => T
+
+export type ComputedSetter<T> = (value: T) => void
+
+export interface WritableComputedOptions<T> {
+    get: ComputedGetter<T>
+    set: ComputedSetter<T>
+}
+
+export interface ComputedRef<T = any> {
+    readonly value: T
+}
+
+export type WritableComputedRef<T = any> = Ref<T>
+
+function throwReadonlyComputedError(): never {
+    throw new Error("[ngfx] Cannot assign to a readonly computed value.")
+}
+
+export function computed<T>(getter: ComputedGetter<T>): ComputedRef<T>
+export function computed<T>(options: WritableComputedOptions<T>): WritableComputedRef<T>
+export function computed<T>(
+    getterOrOptions: ComputedGetter<T> | WritableComputedOptions<T>,
+): ComputedRef<T> | WritableComputedRef<T> {
+    const { get, set } =
+        typeof getterOrOptions === "function"
+            ? { get: getterOrOptions, set: throwReadonlyComputedError }
+            : getterOrOptions
+    const differ = inject(IterableDiffers)
+        .find([])
+        .create()
+    let deps: DepsMap | undefined
+    let cachedValue: T
+
+    const ref = {
+        [refSymbol]: true,
+        get value() {
+            if (!deps || hasChanges(differ, getValues(deps))) {
+                collectDeps()
+                try {
+                    cachedValue = get()
+                    deps = flushDeps()
+                } catch (error) {
+                    flushDeps()
+                    deps = undefined
+                    throw error
+                }
+                differ.diff(getValues(deps))
+            }
+            addDeps(ref, "value")
+            return cachedValue
+        },
+        set value(value: T) {
+            set(value)
+        },
+    }
+
+    return ref
+}
@@ -4,67 +4,54 @@ import {
     InjectFlags,
     InjectionToken,
     Injector,
-    IterableChanges,
-    IterableDiffer,
-    IterableDiffers,
     KeyValueChanges,
-    KeyValueDiffer,
     KeyValueDiffers,
+    SimpleChange,
+    SimpleChanges,
     Type,
     ViewContainerRef,
 } from "@angular/core"
-import { Context, EffectHook, EffectOptions, LifecycleHook, OnConnect } from "./interfaces"
-import { CONNECTABLE } from "./constants"
-import { Subject, TeardownLogic } from "rxjs"
-import { getLifecycleHook, setLifecycleHook } from "./lifecycle"
-
-type CleanupMap = Map<LifecycleHook, Set<TeardownLogic>>
-
-const injectorMap = new WeakMap<Context, Injector>()
-const cleanupMap = new WeakMap<Context, CleanupMap>()
-const effects = new Map<EffectHook, EffectOptions>()
-const hooksMap = new WeakMap<Context, Map<LifecycleHook, Set<EffectHook>>>()
-const schedulerMap = new WeakMap<Context, Subject<LifecycleHook | undefined>>()
-
-let activeContext: undefined | Context
-
-export function throwMissingInjectorError(): never {
-    throw new Error("[ngfx] Injector not found.")
-}
-
-export function throwMissingContextError(): never {
-    throw new Error("[ngfx] Invalid execution context")
-}
-
-export function getInjector(context: Context = getContext()) {
-    const injector = injectorMap.get(context)
-
-    if (!injector) {
-        throwMissingInjectorError()
-    }
-
-    return injector
-}
-
-export function getContext<T extends object>(): T {
-    if (activeContext) {
-        return activeContext as T
-    } else {
-        throwMissingContextError()
-    }
-}
-
-export function schedule(lifecycle: LifecycleHook, context: Context = getContext()) {
-    runInContext(context, lifecycle, () => getScheduler(context).next(lifecycle))
-}
-
-export function getScheduler(context = getContext()): Subject<LifecycleHook | undefined> {
-    return schedulerMap.get(context) || schedulerMap.set(context, new Subject()).get(context)!
-}
-
-export function setContext(context?: any) {
-    activeContext = context
-}
+import { Context, EffectHook, LifecycleHook, OnConnect, SetupResult } from "./interfaces"
+import { CONNECT_OPTIONS, CONNECTABLE, ZONELESS } from "./constants"
+import { TeardownLogic } from "rxjs"
+import {
+    flush,
+    getCleanups,
+    getContext,
+    getContextHooks,
+    getErrorPolicy,
+    getHooks,
+    getInjector,
+    getParentContext,
+    getScheduler,
+    isServerContext,
+    isServiceContext,
+    noop,
+    registerContext,
+    registerService,
+    runInContext,
+    setContext,
+    toRawValue,
+} from "./context"
+import { schedule } from "./scheduler"
+import {
+    addConnectedService,
+    clearDirty,
+    collectEffects,
+    flushPostEffects,
+    invalidateEffects,
+    removeConnectedService,
+    runEffects,
+} from "./effects"
+import { reactiveFactory } from "./reactive"
+import { createScopedHook, getCurrentScope, recordDisposer } from "./scope"
+import { handleError } from "./errors"
+import { trackSetup } from "./status"
+import { exposeBindings } from "./bindings"
+import { enableZoneless } from "./render"
+
+const changesMap = new WeakMap<Context, SimpleChanges>()
+const renderHooks = new Set([LifecycleHook.AfterViewInit, LifecycleHook.WhenRendered])
 
 export function inject<T>(
     token: Type<T> | AbstractType<T> | InjectionToken<T>,
@@ -76,8 +63,13 @@ export function inject<T>(
     flags?: InjectFlags,
 ): T | null {
     const nodeInjector = getInjector()
-    // Workaround for https://github.com/angular/angular/issues/31776
     if (flags) {
+        const optional = Boolean(flags & InjectFlags.Optional) ? null : undefined
+        // Module injectors resolve flags correctly, only node injectors need the workaround.
+        if (isServiceContext()) {
+            return nodeInjector.get(token, optional, flags)
+        }
+        // Workaround for https://github.com/angular/angular/issues/31776
         let parent: Injector
         try {
             parent = nodeInjector.get(ViewContainerRef as Type<any>)?.parentInjector
@@ -86,7 +78,6 @@ export function inject<T>(
                 "This injector is a temporary workaround that can only be used inside a `connectable()` or `ngOnConnect()` call. For other injection contexts, please import `inject()` from @angular/core. Related issue: https://github.com/angular/angular/issues/31776",
             )
         }
-        const optional = Boolean(flags & InjectFlags.Optional) ? null : undefined
         if (Boolean(flags & InjectFlags.SkipSelf) && parent) {
             return parent.get(token, optional)
         }
@@ -109,91 +100,6 @@ export function inject<T>(
     return nodeInjector.get(token)
 }
 
-export function getHooks() {
-    return hooksMap.get(getContext())!
-}
-
-export function flush(cleanup: Set<TeardownLogic>) {
-    for (const teardown of cleanup) {
-        unsubscribe(teardown)
-    }
-    cleanup.clear()
-}
-
-const invalidationsMap = new WeakMap<Context, Map<Function, () => boolean>>()
-const previousValues = new WeakMap<Context, any[] | undefined>()
-
-function getInvalidations(context: Context) {
-    return invalidationsMap.get(context) || invalidationsMap.set(context, new Map()).get(context)!
-}
-
-function getValues(deps: Map<any, Set<any>>) {
-    const current: any = []
-    Array.from(deps).map(([context, keys]) => {
-        Array.from(keys).map(key => {
-            current.push(context[key])
-        })
-    })
-    return current
-}
-
-export function invalidateEffects(target: Context) {
-    const invalidations = getInvalidations(target)
-    const effectsToRun = new Set<Function>()
-    let changed = false
-    for (const [invalidate, detectChanges] of invalidations) {
-        if (detectChanges()) {
-            changed = true
-            effectsToRun.add(invalidate())
-        }
-    }
-    for (const effect of effectsToRun) {
-        effect()
-    }
-    return changed
-}
-
-export function runEffect(
-    context: Context,
-    effect: EffectHook,
-    options: EffectOptions,
-    cleanup: Set<TeardownLogic>,
-    differs: IterableDiffers,
-) {
-    effects.delete(effect)
-    collectDeps()
-    const teardown = effect()
-    const flushedDeps = flushDeps()
-    const deps = options.watch ? flushedDeps : new Map()
-    const invalidations = getInvalidations(context)
-    const differ = differs.find([]).create()
-
-    differ.diff(getValues(deps))
-
-    function detectChanges() {
-        return hasChanges(differ, getValues(deps))
-    }
-
-    const invalidation = () => {
-        cleanup.delete(teardown)
-        invalidations.delete(invalidation)
-        previousValues.delete(deps)
-        unsubscribe(teardown)
-        return function() {
-            runEffect(context, effect, options, cleanup, differs)
-        }
-    }
-    invalidations.set(invalidation, detectChanges)
-    cleanup.add(teardown)
-}
-
-export function runEffects(context: Context, cleanup: Set<TeardownLogic>) {
-    const differs = inject(IterableDiffers)
-    for (const [effect, options] of effects) {
-        runEffect(context, effect, options, cleanup, differs)
-    }
-}
-
 export function runHooks(
     lifecycle: LifecycleHook,
     hooks: Set<EffectHook>,
@@ -207,67 +113,89 @@ export function runHooks(
             if (current === lifecycle) {
                 flush(cleanup)
                 for (const hook of hooks) {
-                    runInContext(context, lifecycle, () => {
-                        cleanup.add(hook())
-                        runEffects(context, cleanup)
-                    })
+                    runInContext(context, lifecycle, () =>
+                        collectEffects(context, () => {
+                            try {
+                                cleanup.add(
+                                    lifecycle === LifecycleHook.OnChanges
+                                        ? hook(changesMap.get(context) || {})
+                                        : hook(),
+                                )
+                            } catch (error) {
+                                handleError(context, error, getErrorPolicy(context))
+                            }
+                            runEffects(context, cleanup)
+                        }),
+                    )
                 }
             }
         },
         error: error => {
             flush(cleanup)
-            console.error(error)
+            handleError(context, error, getErrorPolicy(context))
         },
         complete: () => flush(cleanup),
     })
 }
 
-export function unsubscribe(teardown: TeardownLogic) {
-    if (typeof teardown === "function") {
-        teardown()
-    } else if (teardown && "unsubscribe" in teardown) {
-        teardown.unsubscribe()
-    }
-}
-
-export function noop() {}
-
-export const targetSymbol = Symbol()
-
-export function hasChanges(
-    differ: IterableDiffer<any> | KeyValueDiffer<any, any>,
-    context: any,
-): boolean {
-    return differ.diff(Reflect.get(context, targetSymbol) || context) !== null
+function toSimpleChanges(changes: KeyValueChanges<string, any>) {
+    const simpleChanges: SimpleChanges = {}
+    changes.forEachAddedItem(record => {
+        simpleChanges[record.key] = new SimpleChange(undefined, record.currentValue, true)
+    })
+    changes.forEachChangedItem(record => {
+        simpleChanges[record.key] = new SimpleChange(
+            record.previousValue,
+            record.currentValue,
+            false,
+        )
+    })
+    changes.forEachRemovedItem(record => {
+        simpleChanges[record.key] = new SimpleChange(record.previousValue, undefined, false)
+    })
+    return simpleChanges
 }
 
 export function runScheduler() {
     const iterableDiffers = inject(KeyValueDiffers)
     const scheduler = getScheduler()
     const context: { [key: string]: any } = getContext()
-    const changeDetectorRef = inject(ChangeDetectorRef)
-    const differ = iterableDiffers.find(context).create()
+    const changeDetectorRef = getInjector().get(ChangeDetectorRef, null)
+    const differ = iterableDiffers.find(context).create<string, any>()
     const hasOnChanges = Boolean(getHooks().get(LifecycleHook.OnChanges))
 
+    if (isServiceContext(context)) {
+        addConnectedService(context)
+    }
+
     scheduler.subscribe(lifecycle => {
         switch (lifecycle) {
             case LifecycleHook.DoCheck: {
                 const invalidated = invalidateEffects(context)
-                if (hasOnChanges || invalidated) {
-                    if (hasChanges(differ, context)) {
-                        changeDetectorRef.markForCheck()
+                const dirty = clearDirty(context)
+                if (hasOnChanges || invalidated || dirty) {
+                    const changes = differ.diff(toRawValue(context))
+                    if (changes || dirty) {
+                        changesMap.set(context, changes ? toSimpleChanges(changes) : {})
+                        changeDetectorRef?.markForCheck()
                         scheduler.next(LifecycleHook.OnChanges)
                     }
                 }
+                // Services are never rendered, so post effects flush with every check.
+                if (isServiceContext(context)) {
+                    flushPostEffects(context)
+                }
                 break
             }
             case LifecycleHook.AfterViewChecked: {
                 runInContext(context, LifecycleHook.WhenRendered, () =>
                     scheduler.next(LifecycleHook.WhenRendered),
                 )
+                flushPostEffects(context)
                 break
             }
             case LifecycleHook.OnDestroy: {
+                removeConnectedService(context)
                 scheduler.complete()
                 scheduler.unsubscribe()
             }
@@ -280,56 +208,46 @@ export function runScheduler() {
 export function setup() {
     const initializers = inject(CONNECTABLE, InjectFlags.Self | InjectFlags.Optional)
     const context = getContext<Partial<OnConnect>>()
-    const cleanup = cleanupMap.get(context) as Map<LifecycleHook, Set<TeardownLogic>>
+    const cleanup = getCleanups(context) as Map<LifecycleHook, Set<TeardownLogic>>
+    const results: SetupResult[] = []
+
+    // Ancestors are connected before their children set up, so the parent is resolved and cached now.
+    getParentContext(context)
 
     if (context.ngOnConnect) {
-        context.ngOnConnect()
+        results.push(context.ngOnConnect())
     }
 
     if (initializers) {
         for (const initializer of initializers) {
-            initializer(context)
+            results.push(initializer(context))
         }
     }
 
+    exposeBindings(context, results)
+    trackSetup(context, results, cleanup.get(LifecycleHook.OnDestroy) as Set<TeardownLogic>)
+
     addHook(noop, LifecycleHook.OnInit)
 
     const hooksMap = getHooks()
 
     for (const [lifecycle, hooks] of hooksMap!) {
-        runHooks(lifecycle, hooks, cleanup.get(lifecycle)!)
+        if (!isServerContext(context) || !renderHooks.has(lifecycle)) {
+            runHooks(lifecycle, hooks, cleanup.get(lifecycle)!)
+        }
     }
 
     runScheduler()
 }
 
-export function runInContext<T extends (...args: any[]) => any>(
-    context: any,
-    lifecycle: LifecycleHook | undefined,
-    func: T,
-): ReturnType<T> {
-    const prevContext = activeContext
-    const prevLifecycle = getLifecycleHook()
-    setContext(context)
-    setLifecycleHook(lifecycle)
-    const returnValue = func()
-    setContext(prevContext)
-    setLifecycleHook(prevLifecycle)
-    return returnValue
-}
-
 export function connect<T extends object>(source: T, injector: Injector): T {
-    const context = reactiveFactory<T>(source, source)
-    const cleanup = new Map()
-    const lifecycle = new Map()
+    const options = injector.get(CONNECT_OPTIONS, null) || {}
+    const context = reactiveFactory<T>(undefined, source, { shallow: !options.deep })
 
-    injectorMap.set(context, injector)
-    hooksMap.set(context, lifecycle)
-    cleanupMap.set(context, cleanup)
+    registerContext(context, source.constructor as Type<T>, injector, options)
 
-    for (const index of Array.from({ length: 6 }).keys()) {
-        cleanup.set(index, new Set<TeardownLogic>())
-        lifecycle.set(index, new Set<EffectHook>())
+    if (injector.get(ZONELESS, false)) {
+        enableZoneless(context)
     }
 
     setContext(context)
@@ -337,6 +255,12 @@ export function connect<T extends object>(source: T, injector: Injector): T {
     return context
 }
 
+export function connectService<T extends object>(source: T, injector: Injector): T {
+    const context = connect(source, injector)
+    registerService(context)
+    return context
+}
+
 export function init(context: any) {
     const hostInjector = getInjector(context)
     const injector = Injector.create({
@@ -350,97 +274,37 @@ export function init(context: any) {
         ],
     })
 
-    runInContext(context, LifecycleHook.OnInit, () => injector.get(setup))
-}
-
-export function addEffect(fn: EffectHook, options: EffectOptions = {}) {
-    effects.set(fn, options)
+    runInContext(context, LifecycleHook.OnInit, () =>
+        collectEffects(context, () => injector.get(setup)),
+    )
 }
 
 export function addHook(fn: EffectHook, lifecycle: LifecycleHook) {
-    hooksMap
-        .get(getContext())
-        ?.get(lifecycle)
-        ?.add(fn)
-}
-
-export const depsMap = new Map<{ [key: string]: any }, Set<string | number>>()
-
-let depsEnabled = false
-
-export function getDeps(object: object) {
-    return depsMap.get(object) || depsMap.set(object, new Set()).get(object)!
-}
-
-export function collectDeps() {
-    depsEnabled = true
+    const scope = getCurrentScope()
+    const hooks = getContextHooks(getContext())?.get(lifecycle)
+    const hook = scope ? createScopedHook(scope, fn) : fn
+    if (hooks) {
+        hooks.add(hook)
+        if (scope) {
+            recordDisposer(scope, () => hooks.delete(hook))
+        }
+    }
 }
 
-export function addDeps(object: Context, key: any) {
-    if (depsEnabled) {
-        getDeps(object).add(key)
-    }
+export function onInit(fn: () => TeardownLogic) {
+    addHook(fn, LifecycleHook.OnInit)
 }
 
-export function flushDeps() {
-    const deps = new Map(depsMap)
-    depsEnabled = false
-    depsMap.clear()
-    return deps
+export function onChanges(fn: (changes: SimpleChanges) => TeardownLogic) {
+    addHook(fn, LifecycleHook.OnChanges)
 }
 
-const cache = new WeakMap()
-
-export function reactiveFactory<T extends object>(
-    context: any,
-    source: T,
-    opts: any = { shallow: true },
-): T {
-    return new Proxy<T>(source, {
-        get(target: T, p: PropertyKey, receiver: any): any {
-            if (p === targetSymbol) {
-                return target
-            }
-            const value = Reflect.get(target, p, receiver)
-            const desc = Reflect.getOwnPropertyDescriptor(target, p)
-            if (p === "__ngContext__") {
-                return value
-            }
-            if (desc && desc.enumerable) {
-                addDeps(target, p)
-            }
-            if ((desc && !desc.writable && !desc.configurable) || opts.shallow) {
-                return value
-            }
-            if (typeof value === "function") {
-                return new Proxy(value, {
-                    apply(target: any, thisArg: any, argArray?: any): any {
-                        return runInContext(context, getLifecycleHook(), function() {
-                            return target.apply(thisArg, argArray)
-                        })
-                    },
-                })
-            }
-            if (typeof value === "object" && value !== null) {
-                if (cache.has(value)) {
-                    return cache.get(value)
-                }
-                const state = reactiveFactory(context, value, opts)
-                cache.set(value, state)
-                return state
-            }
-            return value
-        },
-        set(target: T, p: PropertyKey, value: any, receiver: any): boolean {
-            const success = Reflect.set(target, p, value, receiver)
-            check(receiver)
-            return success
-        },
-    })
+export function afterContentInit(fn: () => TeardownLogic) {
+    addHook(fn, LifecycleHook.AfterContentInit)
 }
 
-export function onChanges(fn: () => TeardownLogic) {
-    addHook(fn, LifecycleHook.OnChanges)
+export function afterContentChecked(fn: () => TeardownLogic) {
+    addHook(fn, LifecycleHook.AfterContentChecked)
 }
 
 export function afterViewInit(fn: () => TeardownLogic) {
@@ -454,19 +318,3 @@ export function whenRendered(fn: () => TeardownLogic) {
 export function onDestroy(fn: () => TeardownLogic) {
     addHook(fn, LifecycleHook.OnDestroy)
 }
-
-export function check(context: any) {
-    schedule(LifecycleHook.DoCheck, context)
-}
-
-export function viewInit(context: any) {
-    schedule(LifecycleHook.AfterViewInit, context)
-}
-
-export function viewChecked(context: any) {
-    schedule(LifecycleHook.AfterViewChecked, context)
-}
-
-export function destroy(context: any) {
-    schedule(LifecycleHook.OnDestroy, context)
-}
@@ -1,4 +1,6 @@
 import {
+    AfterContentChecked,
+    AfterContentInit,
     AfterViewChecked,
     AfterViewInit,
     Directive,
@@ -9,18 +11,35 @@ import {
     OnDestroy,
     OnInit,
 } from "@angular/core"
-import { OnConnect } from "./interfaces"
-import { check, connect, destroy, init, viewChecked, viewInit } from "./connect"
+import { ConnectStatus, OnConnect } from "./interfaces"
+import { connect, init } from "./connect"
+import { check, contentChecked, contentInit, destroy, viewChecked, viewInit } from "./scheduler"
+import { getConnectError, getConnectStatus } from "./status"
 
 export interface Connectable extends OnConnect {}
 
 @Directive()
 export abstract class Connectable
-    implements OnInit, DoCheck, AfterViewInit, AfterViewChecked, OnDestroy {
+    implements
+        OnInit,
+        DoCheck,
+        AfterContentInit,
+        AfterContentChecked,
+        AfterViewInit,
+        AfterViewChecked,
+        OnDestroy {
     constructor(@Inject(INJECTOR) injector: Injector) {
         return connect(this, injector)
     }
 
+    get connectStatus(): ConnectStatus {
+        return getConnectStatus(this)
+    }
+
+    get connectError(): any {
+        return getConnectError(this)
+    }
+
     ngOnInit() {
         init(this)
     }
@@ -29,6 +48,14 @@ export abstract class Connectable
         check(this)
     }
 
+    ngAfterContentInit() {
+        contentInit(this)
+    }
+
+    ngAfterContentChecked() {
+        contentChecked(this)
+    }
+
     ngAfterViewInit() {
         viewInit(this)
     }
@@ -0,0 +1,32 @@
+import { Inject, Injectable, INJECTOR, Injector, OnDestroy } from "@angular/core"
+import { Context, OnConnect } from "./interfaces"
+import { connectService, init } from "./connect"
+import { flushPostEffects } from "./effects"
+import { destroy } from "./scheduler"
+
+const destroyedServices = new WeakSet<Context>()
+
+export interface ConnectableService extends OnConnect {}
+
+/**
+ * Composition API for services and NgModules. Setup runs in a microtask so that
+ * subclass fields are initialised first, teardown runs when the injector is destroyed.
+ */
+@Injectable()
+export abstract class ConnectableService implements OnDestroy {
+    constructor(@Inject(INJECTOR) injector: Injector) {
+        const context = connectService(this, injector)
+        Promise.resolve().then(() => {
+            if (!destroyedServices.has(context)) {
+                init(context)
+                flushPostEffects(context)
+            }
+        })
+        return context
+    }
+
+    ngOnDestroy() {
+        destroyedServices.add(this)
+        destroy(this)
+    }
+}
@@ -1,4 +1,20 @@
-import { InjectionToken } from "@angular/core"
-import { ConnectableFunction } from "./interfaces"
+import { ErrorHandler, inject, InjectionToken } from "@angular/core"
+import {
+    ConnectableFunction,
+    ConnectOptions,
+    EffectErrorHandler,
+    SuspenseBoundary,
+} from "./interfaces"
 
 export const CONNECTABLE = new InjectionToken<ConnectableFunction[]>("CONNECTABLE")
+
+export const CONNECT_OPTIONS = new InjectionToken<ConnectOptions>("CONNECT_OPTIONS")
+
+export const EFFECT_ERROR_HANDLER = new InjectionToken<EffectErrorHandler>("EFFECT_ERROR_HANDLER", {
+    providedIn: "root",
+    factory: () => inject(ErrorHandler),
+})
+
+export const SUSPENSE = new InjectionToken<SuspenseBoundary>("SUSPENSE")
+
+export const ZONELESS = new InjectionToken<boolean>("ZONELESS")
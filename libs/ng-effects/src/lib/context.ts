@@ -0,0 +1,333 @@
+import {
+    ElementRef,
+    Injector,
+    IterableDiffer,
+    KeyValueDiffer,
+    PLATFORM_ID,
+    Type,
+    ViewContainerRef,
+} from "@angular/core"
+import { isPlatformServer } from "@angular/common"
+import { Subject, TeardownLogic } from "rxjs"
+import { ConnectOptions, Context, EffectHook, LifecycleHook } from "./interfaces"
+import { getLifecycleHook, setLifecycleHook } from "./lifecycle"
+
+export type CleanupMap = Map<LifecycleHook, Set<TeardownLogic>>
+
+const injectorMap = new WeakMap<Context, Injector>()
+const cleanupMap = new WeakMap<Context, CleanupMap>()
+const hooksMap = new WeakMap<Context, Map<LifecycleHook, Set<EffectHook>>>()
+const schedulerMap = new WeakMap<Context, Subject<LifecycleHook | undefined>>()
+const optionsMap = new WeakMap<Context, ConnectOptions>()
+const elementMap = new WeakMap<Context, Node>()
+const elementContexts = new WeakMap<Node, Context>()
+const typeMap = new WeakMap<Context, Type<any>>()
+const elementTypes = new Set<Type<any>>()
+const parentMap = new WeakMap<Context, Context | undefined>()
+const serverContexts = new WeakSet<Context>()
+const serviceContexts = new WeakSet<Context>()
+
+const hookTypes = [
+    LifecycleHook.OnInit,
+    LifecycleHook.OnChanges,
+    LifecycleHook.AfterContentInit,
+    LifecycleHook.AfterContentChecked,
+    LifecycleHook.AfterViewInit,
+    LifecycleHook.WhenRendered,
+    LifecycleHook.OnDestroy,
+    LifecycleHook.DoCheck,
+]
+
+let activeContext: undefined | Context
+// `connect()` leaves the active context set for field initialisers, this tracks whether it is running.
+let runningDepth = 0
+
+export function throwMissingInjectorError(): never {
+    throw new Error("[ngfx] Injector not found.")
+}
+
+export function throwMissingContextError(): never {
+    throw new Error("[ngfx] Invalid execution context")
+}
+
+export function getInjector(context: Context = getContext()) {
+    const injector = injectorMap.get(context)
+
+    if (!injector) {
+        throwMissingInjectorError()
+    }
+
+    return injector
+}
+
+export function getContext<T extends object>(): T {
+    if (activeContext) {
+        return activeContext as T
+    } else {
+        throwMissingContextError()
+    }
+}
+
+export function setContext(context?: any) {
+    activeContext = context
+}
+
+export function getRunningContext(): Context | undefined {
+    return runningDepth ? activeContext : undefined
+}
+
+export function runInContext<T extends (...args: any[]) => any>(
+    context: any,
+    lifecycle: LifecycleHook | undefined,
+    func: T,
+): ReturnType<T> {
+    const prevContext = activeContext
+    const prevLifecycle = getLifecycleHook()
+    setContext(context)
+    setLifecycleHook(lifecycle)
+    runningDepth += 1
+    try {
+        return func()
+    } finally {
+        runningDepth -= 1
+        setContext(prevContext)
+        setLifecycleHook(prevLifecycle)
+    }
+}
+
+export function getScheduler(context = getContext()): Subject<LifecycleHook | undefined> {
+    return schedulerMap.get(context) || schedulerMap.set(context, new Subject()).get(context)!
+}
+
+export function getErrorPolicy(context: Context) {
+    return optionsMap.get(context)?.errorPolicy || "log"
+}
+
+export function getEffectLoopLimit(context: Context) {
+    return optionsMap.get(context)?.effectLoopLimit || 100
+}
+
+export function isDeepContext(context: Context) {
+    return Boolean(optionsMap.get(context)?.deep)
+}
+
+export function isServerContext(context: Context = getContext()) {
+    return serverContexts.has(context)
+}
+
+export function isServiceContext(context: Context = getContext()) {
+    return serviceContexts.has(context)
+}
+
+export function getContextHooks(context: Context) {
+    return hooksMap.get(context)
+}
+
+export function getCleanups(context: Context) {
+    return cleanupMap.get(context)
+}
+
+export function getHooks() {
+    return hooksMap.get(getContext())!
+}
+
+export function registerContext(
+    context: Context,
+    type: Type<any>,
+    injector: Injector,
+    options: ConnectOptions,
+) {
+    const element = injector.get(ElementRef as Type<ElementRef>, null)?.nativeElement
+    const cleanup: CleanupMap = new Map()
+    const lifecycle = new Map<LifecycleHook, Set<EffectHook>>()
+
+    if (isPlatformServer(injector.get(PLATFORM_ID, {}))) {
+        serverContexts.add(context)
+    }
+
+    if (element) {
+        elementMap.set(context, element)
+        elementContexts.set(element, context)
+        typeMap.set(context, type)
+        elementTypes.add(type)
+    }
+
+    injectorMap.set(context, injector)
+    optionsMap.set(context, options)
+    hooksMap.set(context, lifecycle)
+    cleanupMap.set(context, cleanup)
+
+    for (const index of hookTypes) {
+        cleanup.set(index, new Set<TeardownLogic>())
+        lifecycle.set(index, new Set<EffectHook>())
+    }
+}
+
+export function registerService(context: Context) {
+    serviceContexts.add(context)
+}
+
+function getParentInjector(injector: Injector): Injector | undefined {
+    try {
+        return injector.get(ViewContainerRef as Type<any>, null)?.parentInjector
+    } catch {
+        return undefined
+    }
+}
+
+function getAncestorOfType(context: Context, type: Type<any>): Context | null {
+    const injector = getInjector(context)
+    if (type !== typeMap.get(context)) {
+        return injector.get(type, null)
+    }
+    // A host resolves its own type to itself, so same-typed ancestors are found from the parent injector.
+    const parentInjector = getParentInjector(injector)
+    if (parentInjector) {
+        return parentInjector.get(type, null)
+    }
+    // ViewEngine only exposes a parent injector to hosts that request a ViewContainerRef.
+    let node = elementMap.get(context)?.parentNode
+    while (node) {
+        const parent = elementContexts.get(node)
+        if (parent && typeMap.get(parent) === type) {
+            return parent
+        }
+        node = node.parentNode
+    }
+    return null
+}
+
+/**
+ * Resolves the nearest connected ancestor through the injector tree, so that views rendered
+ * from a template find the context they were declared in, wherever they are attached.
+ */
+export function getParentContext(context: Context): Context | undefined {
+    if (!parentMap.has(context)) {
+        parentMap.set(context, resolveParentContext(context))
+    }
+    return parentMap.get(context)
+}
+
+function resolveParentContext(context: Context): Context | undefined {
+    let parent: Context | undefined
+    let parentType: Type<any> | undefined
+    if (!elementMap.has(context)) {
+        return parent
+    }
+    for (const type of Array.from(elementTypes)) {
+        const ancestor = getAncestorOfType(context, type)
+        if (
+            ancestor &&
+            ancestor !== context &&
+            elementMap.has(ancestor) &&
+            (!parentType || getAncestorOfType(ancestor, parentType) === parent)
+        ) {
+            parent = ancestor
+            parentType = type
+        }
+    }
+    return parent
+}
+
+export function unsubscribe(teardown: TeardownLogic) {
+    if (typeof teardown === "function") {
+        teardown()
+    } else if (typeof teardown === "object" && teardown && "unsubscribe" in teardown) {
+        teardown.unsubscribe()
+    }
+}
+
+export function flush(cleanup: Set<TeardownLogic>) {
+    for (const teardown of cleanup) {
+        unsubscribe(teardown)
+    }
+    cleanup.clear()
+}
+
+export function noop() {}
+
+export const targetSymbol = Symbol()
+
+export const refSymbol = Symbol()
+
+export function toRawValue(value: any) {
+    return typeof value === "object" && value !== null
+        ? Reflect.get(value, targetSymbol) || value
+        : value
+}
+
+export function hasChanges(
+    differ: IterableDiffer<any> | KeyValueDiffer<any, any>,
+    context: any,
+): boolean {
+    return differ.diff(Reflect.get(context, targetSymbol) || context) !== null
+}
+
+export type DepsMap = Map<{ [key: string]: any }, Set<PropertyKey>>
+
+const depsStack: (DepsMap | undefined)[] = []
+
+let activeDeps: DepsMap | undefined
+
+export function getDeps(object: object) {
+    const deps = activeDeps as DepsMap
+    return deps.get(object) || deps.set(object, new Set()).get(object)!
+}
+
+export function collectDeps() {
+    depsStack.push(activeDeps)
+    activeDeps = new Map()
+}
+
+export function addDeps(object: Context, key: any) {
+    if (activeDeps) {
+        getDeps(object).add(key)
+    }
+}
+
+export function flushDeps() {
+    const deps = activeDeps || new Map()
+    activeDeps = depsStack.pop()
+    return deps
+}
+
+export function untracked<T>(fn: () => T): T {
+    depsStack.push(activeDeps)
+    activeDeps = undefined
+    try {
+        return fn()
+    } finally {
+        activeDeps = depsStack.pop()
+    }
+}
+
+export function getValues(deps: Map<any, Set<any>>) {
+    const current: any = []
+    untracked(() => {
+        Array.from(deps).map(([context, keys]) => {
+            Array.from(keys).map(key => {
+                current.push(context[key])
+            })
+        })
+    })
+    return current
+}
+
+const iterationMap = new WeakMap<object, { version: number }>()
+
+function getIteration(target: object) {
+    let iteration = iterationMap.get(target)
+    if (!iteration) {
+        iteration = { version: 0 }
+        iterationMap.set(target, iteration)
+    }
+    return iteration
+}
+
+export function trackIteration(target: object) {
+    addDeps(getIteration(target), "version")
+}
+
+export function triggerIteration(target: object) {
+    getIteration(target).version += 1
+}
@@ -0,0 +1,133 @@
+import { isDevMode } from "@angular/core"
+import { DepsMap, getContextHooks, noop } from "./context"
+import {
+    Context,
+    EffectCallback,
+    EffectFlush,
+    EffectHook,
+    EffectOptions,
+    LifecycleHook,
+} from "./interfaces"
+
+export interface DependencyInfo {
+    target: object
+    keys: PropertyKey[]
+}
+
+export interface DependencyChange {
+    target: object
+    key: PropertyKey
+    previousValue: any
+    currentValue: any
+}
+
+export interface EffectDebugInfo {
+    name?: string
+    stack?: string
+    flush: EffectFlush
+    watch: boolean
+    deps: DependencyInfo[]
+    runs: number
+    lastInvalidation?: DependencyChange[]
+}
+
+export interface DebugInfo {
+    hooks: { [lifecycle: string]: EffectHook[] }
+    effects: EffectDebugInfo[]
+}
+
+const effectRecords = new WeakMap<EffectCallback, EffectDebugInfo>()
+const contextRecords = new WeakMap<Context, Set<EffectDebugInfo>>()
+
+function getContextRecords(context: Context) {
+    let records = contextRecords.get(context)
+    if (!records) {
+        records = new Set()
+        contextRecords.set(context, records)
+    }
+    return records
+}
+
+export function createEffectRecord(effect: EffectCallback, options: EffectOptions) {
+    if (isDevMode()) {
+        effectRecords.set(effect, {
+            name: options.name,
+            stack: new Error().stack,
+            flush: options.flush || "pre",
+            watch: Boolean(options.watch),
+            deps: [],
+            runs: 0,
+        })
+    }
+}
+
+export function recordEffectRun(context: Context, effect: EffectCallback, deps: DepsMap) {
+    const record = effectRecords.get(effect)
+    if (record) {
+        record.runs += 1
+        record.deps = Array.from(deps, ([target, keys]) => ({ target, keys: Array.from(keys) }))
+        getContextRecords(context).add(record)
+    }
+}
+
+export function recordEffectStop(context: Context, effect: EffectCallback) {
+    const record = effectRecords.get(effect)
+    if (record) {
+        getContextRecords(context).delete(record)
+    }
+}
+
+export function recordInvalidation(
+    effect: EffectCallback,
+    deps: DepsMap,
+    previousValues: any[],
+    currentValues: any[],
+) {
+    const record = effectRecords.get(effect)
+    if (record) {
+        const changes: DependencyChange[] = []
+        let index = 0
+        for (const [target, keys] of deps) {
+            for (const key of keys) {
+                const previousValue = previousValues[index]
+                const currentValue = currentValues[index]
+                if (!Object.is(previousValue, currentValue)) {
+                    changes.push({ target, key, previousValue, currentValue })
+                }
+                index += 1
+            }
+        }
+        record.lastInvalidation = changes
+    }
+}
+
+export function createLoopError(effect: EffectCallback, limit: number) {
+    const record = effectRecords.get(effect)
+    const name = record?.name || "anonymous"
+    const keys = (record?.lastInvalidation || []).map(change => `"${String(change.key)}"`)
+    return new Error(
+        `[ngfx] Infinite effect loop detected: effect "${name}" re-ran more than ${limit} times in a single flush.` +
+            (keys.length ? ` It was last invalidated by a change to ${keys.join(", ")}.` : ""),
+    )
+}
+
+export function getDebugInfo(component: object): DebugInfo {
+    if (!isDevMode()) {
+        throw new Error("[ngfx] getDebugInfo() is only available in dev mode.")
+    }
+    const hooksMap = getContextHooks(component)
+    if (!hooksMap) {
+        throw new Error("[ngfx] Debug info requested for a component that is not connected.")
+    }
+    const hooks: DebugInfo["hooks"] = {}
+    for (const [lifecycle, lifecycleHooks] of hooksMap) {
+        const registered = Array.from(lifecycleHooks).filter(hook => hook !== noop)
+        if (registered.length) {
+            hooks[LifecycleHook[lifecycle]] = registered
+        }
+    }
+    return {
+        hooks,
+        effects: Array.from(getContextRecords(component), record => ({ ...record })),
+    }
+}
@@ -0,0 +1,418 @@
+import { isDevMode, IterableDiffers, NgZone } from "@angular/core"
+import { TeardownLogic } from "rxjs"
+import { Context, EffectCallback, EffectFlush, EffectOptions, LifecycleHook } from "./interfaces"
+import {
+    CleanupMap,
+    collectDeps,
+    flushDeps,
+    getEffectLoopLimit,
+    getErrorPolicy,
+    getCleanups,
+    getInjector,
+    getRunningContext,
+    getValues,
+    hasChanges,
+    isDeepContext,
+    isServerContext,
+    runInContext,
+    unsubscribe,
+} from "./context"
+import { getLifecycleHook } from "./lifecycle"
+import { check } from "./scheduler"
+import {
+    EffectScope,
+    getCurrentScope,
+    getScopeContext,
+    recordContext,
+    recordDisposer,
+} from "./scope"
+import { handleError } from "./errors"
+import { scheduleRender } from "./render"
+import {
+    createEffectRecord,
+    createLoopError,
+    recordEffectRun,
+    recordEffectStop,
+    recordInvalidation,
+} from "./debug"
+
+const effects = new Map<EffectCallback, EffectOptions>()
+const connectedServices = new Set<Context>()
+const dirtyContexts = new WeakSet<Context>()
+
+// Effects created while setup or a lifecycle hook runs are queued for the `runEffects()` that follows.
+let collectingContext: Context | undefined
+
+export function collectEffects<T>(context: Context | undefined, fn: () => T): T {
+    const prevContext = collectingContext
+    collectingContext = context
+    try {
+        return fn()
+    } finally {
+        collectingContext = prevContext
+    }
+}
+
+interface Invalidation {
+    effect: EffectCallback
+    flush: EffectFlush
+    scope?: EffectScope
+    detectChanges(): boolean
+}
+
+const invalidationsMap = new WeakMap<Context, Map<() => () => void, Invalidation>>()
+const postEffectsMap = new WeakMap<Context, Set<() => void>>()
+const disposers = new WeakMap<EffectCallback, () => void>()
+const effectScopes = new WeakMap<EffectCallback, EffectScope>()
+const stoppedEffects = new WeakSet<EffectCallback>()
+
+function getInvalidations(context: Context) {
+    return invalidationsMap.get(context) || invalidationsMap.set(context, new Map()).get(context)!
+}
+
+function getPostEffects(context: Context) {
+    let postEffects = postEffectsMap.get(context)
+    if (!postEffects) {
+        postEffects = new Set()
+        postEffectsMap.set(context, postEffects)
+    }
+    return postEffects
+}
+
+let flushDepth = 0
+const flushRuns = new Map<EffectCallback, number>()
+
+function exceedsLoopLimit(context: Context, effect: EffectCallback) {
+    if (!isDevMode()) {
+        return false
+    }
+    const runs = (flushRuns.get(effect) || 0) + 1
+    const limit = getEffectLoopLimit(context)
+    flushRuns.set(effect, runs)
+    if (runs > limit) {
+        handleError(context, createLoopError(effect, limit), "rethrow")
+        return true
+    }
+    return false
+}
+
+export function invalidateEffects(target: Context, timing: EffectFlush = "pre") {
+    const invalidations = getInvalidations(target)
+    const effectsToRun = new Set<Function>()
+    let changed = false
+    flushDepth += 1
+    try {
+        for (const [invalidate, invalidation] of invalidations) {
+            if (invalidation.scope && invalidation.scope.paused) {
+                continue
+            }
+            if (invalidation.flush === timing && invalidation.detectChanges()) {
+                changed = true
+                if (exceedsLoopLimit(target, invalidation.effect)) {
+                    stopEffect(invalidation.effect)
+                } else {
+                    effectsToRun.add(invalidate())
+                }
+            }
+        }
+        batch(() => {
+            for (const effect of effectsToRun) {
+                effect()
+            }
+        })
+    } finally {
+        flushDepth -= 1
+        if (flushDepth === 0) {
+            flushRuns.clear()
+        }
+    }
+    return changed
+}
+
+// Changes made while a scope was paused are caught up when it resumes.
+function resumeEffects(context: Context) {
+    invalidateEffects(context, "sync")
+    check(context)
+}
+
+export function flushPostEffects(context: Context) {
+    const postEffects = getPostEffects(context)
+    const effectsToRun = Array.from(postEffects)
+    postEffects.clear()
+    for (const effect of effectsToRun) {
+        effect()
+    }
+    invalidateEffects(context, "post")
+}
+
+function queuePostEffect(context: Context, cleanup: Set<TeardownLogic>, run: () => void) {
+    const postEffects = getPostEffects(context)
+
+    function cancel() {
+        postEffects.delete(job)
+    }
+
+    function job() {
+        cleanup.delete(cancel)
+        run()
+    }
+
+    postEffects.add(job)
+    cleanup.add(cancel)
+}
+
+// Timers and requests started by server effects don't hold rendering unless they opt in.
+function runOutsideZone<T>(context: Context, options: EffectOptions, fn: () => T): T {
+    if (isServerContext(context) && !options.ssr) {
+        return getInjector(context)
+            .get(NgZone)
+            .runOutsideAngular(fn)
+    }
+    return fn()
+}
+
+export function runEffect(
+    context: Context,
+    effect: EffectCallback,
+    options: EffectOptions,
+    cleanup: Set<TeardownLogic>,
+    differs: IterableDiffers,
+) {
+    const scope = effectScopes.get(effect)
+    const cleanups = new Set<() => void>()
+    let stopped = false
+    let disposed = false
+    effects.delete(effect)
+    if (stoppedEffects.has(effect)) {
+        return
+    }
+    cleanup.delete(disposers.get(effect))
+    collectDeps()
+    let teardown: TeardownLogic
+    let failed = false
+    try {
+        teardown = runOutsideZone(context, options, () =>
+            collectEffects(undefined, () =>
+                scope
+                    ? scope.run(() => batch(() => effect(onCleanup)))
+                    : batch(() => effect(onCleanup)),
+            ),
+        )
+    } catch (error) {
+        failed = true
+        handleError(context, error, getErrorPolicy(context))
+    }
+    const flushedDeps = flushDeps()
+    const retry = failed && getErrorPolicy(context) === "retry"
+    const deps = options.watch || retry ? flushedDeps : new Map()
+    const invalidations = getInvalidations(context)
+    const differ = differs.find([]).create()
+    let values = getValues(deps)
+
+    recordEffectRun(context, effect, deps)
+
+    function onCleanup(fn: () => void) {
+        if (stopped) {
+            fn()
+        } else {
+            cleanups.add(fn)
+        }
+    }
+
+    if (stoppedEffects.has(effect) || (failed && !retry)) {
+        stop()
+        return
+    }
+
+    differ.diff(values)
+
+    function detectChanges() {
+        const current = getValues(deps)
+        const changed = hasChanges(differ, current)
+        if (changed) {
+            recordInvalidation(effect, deps, values, current)
+        }
+        values = current
+        return changed
+    }
+
+    function stop(rerun = false) {
+        if (!stopped) {
+            stopped = true
+            invalidations.delete(invalidation)
+            recordEffectStop(context, effect)
+            unsubscribe(teardown)
+            for (const fn of cleanups) {
+                fn()
+            }
+            cleanups.clear()
+        }
+        if (!rerun && !disposed) {
+            disposed = true
+            cleanup.delete(stop)
+            if (options.onStop) {
+                options.onStop()
+            }
+        }
+    }
+
+    function invalidation() {
+        stop(true)
+        return function() {
+            runEffect(context, effect, options, cleanup, differs)
+        }
+    }
+
+    if (scope) {
+        recordContext(scope, context, () => resumeEffects(context))
+    }
+
+    invalidations.set(invalidation, {
+        effect,
+        flush: options.flush || "pre",
+        scope,
+        detectChanges,
+    })
+    disposers.set(effect, stop)
+    cleanup.add(stop)
+}
+
+function scheduleEffect(
+    context: Context,
+    effect: EffectCallback,
+    options: EffectOptions,
+    cleanup: Set<TeardownLogic>,
+    differs: IterableDiffers,
+) {
+    if (options.flush === "post") {
+        effects.delete(effect)
+        if (!isServerContext(context)) {
+            queuePostEffect(context, cleanup, () =>
+                runEffect(context, effect, options, cleanup, differs),
+            )
+        }
+    } else {
+        runEffect(context, effect, options, cleanup, differs)
+    }
+}
+
+export function runEffects(context: Context, cleanup: Set<TeardownLogic>) {
+    const differs = getInjector(context).get(IterableDiffers)
+    for (const [effect, options] of effects) {
+        scheduleEffect(context, effect, options, cleanup, differs)
+    }
+}
+
+export function addEffect(fn: EffectCallback, options: EffectOptions = {}) {
+    const scope = getCurrentScope()
+    const context = (scope && getScopeContext(scope)) || getRunningContext()
+    const effect: EffectCallback = onCleanup => fn(onCleanup)
+    if (!context) {
+        throw new Error(
+            "[ngfx] Effects can only be created during setup or inside an effect scope created during setup.",
+        )
+    }
+    createEffectRecord(effect, options)
+    function stop() {
+        stopEffect(effect)
+    }
+    if (scope) {
+        effectScopes.set(effect, scope)
+        recordDisposer(scope, stop)
+    }
+    if (context === collectingContext) {
+        effects.set(effect, options)
+    } else {
+        const cleanup = (getCleanups(context) as CleanupMap).get(LifecycleHook.OnDestroy)
+        const differs = getInjector(context).get(IterableDiffers)
+        runInContext(context, undefined, () =>
+            scheduleEffect(context, effect, options, cleanup as Set<TeardownLogic>, differs),
+        )
+    }
+    return stop
+}
+
+export function stopEffect(effect: EffectCallback) {
+    const dispose = disposers.get(effect)
+    effects.delete(effect)
+    stoppedEffects.add(effect)
+    disposers.delete(effect)
+    if (dispose) {
+        dispose()
+    }
+}
+
+export function notifyChange(context: Context | undefined, target: object) {
+    if (context) {
+        if (context !== target && isDeepContext(context)) {
+            dirtyContexts.add(context)
+        }
+        scheduleSyncEffects(context)
+        scheduleCheck(context)
+        scheduleRender(context)
+    }
+    // Services are never checked by change detection, so changes made elsewhere check them too.
+    for (const service of connectedServices) {
+        if (service !== context) {
+            scheduleSyncEffects(service)
+            scheduleCheck(service)
+        }
+    }
+}
+
+export function addConnectedService(context: Context) {
+    connectedServices.add(context)
+}
+
+export function removeConnectedService(context: Context) {
+    connectedServices.delete(context)
+}
+
+export function clearDirty(context: Context) {
+    return dirtyContexts.delete(context)
+}
+
+let batchDepth = 0
+const pendingSyncEffects = new Set<Context>()
+const pendingChecks = new Set<Context>()
+
+export function batch<T>(fn: () => T): T {
+    batchDepth += 1
+    try {
+        return fn()
+    } finally {
+        batchDepth -= 1
+        if (batchDepth === 0) {
+            const syncContexts = Array.from(pendingSyncEffects)
+            pendingSyncEffects.clear()
+            for (const context of syncContexts) {
+                runSyncEffects(context)
+            }
+            const contexts = Array.from(pendingChecks)
+            pendingChecks.clear()
+            for (const context of contexts) {
+                check(context)
+            }
+        }
+    }
+}
+
+function runSyncEffects(context: Context) {
+    runInContext(context, getLifecycleHook(), () => invalidateEffects(context, "sync"))
+}
+
+export function scheduleSyncEffects(context: Context) {
+    if (batchDepth) {
+        pendingSyncEffects.add(context)
+    } else {
+        runSyncEffects(context)
+    }
+}
+
+export function scheduleCheck(context: Context) {
+    if (batchDepth) {
+        pendingChecks.add(context)
+    } else {
+        check(context)
+    }
+}
@@ -0,0 +1,70 @@
+import { getContext, getInjector, getParentContext, untracked } from "./context"
+import { EFFECT_ERROR_HANDLER } from "./constants"
+import { Context, EffectErrorPolicy, ErrorCapturedHook } from "./interfaces"
+import { getCurrentScope, recordDisposer } from "./scope"
+
+const errorHooksMap = new WeakMap<Context, Set<ErrorCapturedHook>>()
+const pendingErrorsMap = new WeakMap<Context, any[]>()
+
+function getErrorHooks(context: Context) {
+    let hooks = errorHooksMap.get(context)
+    if (!hooks) {
+        hooks = new Set()
+        errorHooksMap.set(context, hooks)
+    }
+    return hooks
+}
+
+export function onErrorCaptured(fn: ErrorCapturedHook) {
+    const scope = getCurrentScope()
+    const hooks = getErrorHooks(getContext())
+    hooks.add(fn)
+    if (scope) {
+        recordDisposer(scope, () => hooks.delete(fn))
+    }
+}
+
+export function captureError(context: Context, error: any) {
+    let current: Context | undefined = context
+    while (current) {
+        for (const hook of Array.from(getErrorHooks(current))) {
+            if (untracked(() => hook(error, context)) === false) {
+                return true
+            }
+        }
+        current = getParentContext(current)
+    }
+    return false
+}
+
+export function handleError(context: Context, error: any, policy: EffectErrorPolicy) {
+    if (captureError(context, error)) {
+        return
+    }
+    if (policy === "rethrow") {
+        const pendingErrors = pendingErrorsMap.get(context)
+        if (pendingErrors) {
+            pendingErrors.push(error)
+        } else {
+            pendingErrorsMap.set(context, [error])
+        }
+    } else {
+        getInjector(context)
+            .get(EFFECT_ERROR_HANDLER)
+            .handleError(error)
+    }
+}
+
+export function rethrowErrors(context: Context) {
+    const pendingErrors = pendingErrorsMap.get(context)
+    if (pendingErrors) {
+        const [error, ...rest] = pendingErrors
+        const errorHandler = getInjector(context).get(EFFECT_ERROR_HANDLER)
+        pendingErrorsMap.delete(context)
+        // Only one error can be thrown, the rest are reported so they aren't lost.
+        for (const other of rest) {
+            errorHandler.handleError(other)
+        }
+        throw error
+    }
+}
@@ -1,17 +1,49 @@
 export * from "./connectable.directive"
+export * from "./connectable.service"
+export * from "./suspense.component"
+export * from "./suspense.module"
 export {
     connect,
     whenRendered,
+    onInit,
     onChanges,
     onDestroy,
+    afterContentInit,
+    afterContentChecked,
     afterViewInit,
     init,
-    viewChecked,
-    check,
-    destroy,
     inject,
-    viewInit,
 } from "./connect"
+export { viewChecked, check, contentInit, contentChecked, destroy, viewInit } from "./scheduler"
+export { getCleanups as ɵgetCleanups } from "./context"
 export * from "./constants"
 export * from "./providers"
 export * from "./utils"
+export * from "./computed"
+export * from "./watch"
+export * from "./ref"
+export * from "./observable"
+export * from "./operators"
+export { effectScope, EffectScope, getCurrentScope, onScopeDispose } from "./scope"
+export { onErrorCaptured } from "./errors"
+export { createContextKey, injectContext, provideContext } from "./provide"
+export { UnwrapBindings } from "./bindings"
+export { compose, trait, Trait, TraitContext, TraitOptions } from "./traits"
+export { onServerPrefetch, transferState } from "./server"
+export { getDebugInfo, DebugInfo, DependencyChange, DependencyInfo, EffectDebugInfo } from "./debug"
+export {
+    LifecycleHook,
+    ConnectableFunction,
+    ConnectOptions,
+    ConnectStatus,
+    ContextKey,
+    EffectCallback,
+    EffectErrorHandler,
+    EffectErrorPolicy,
+    EffectFlush,
+    ErrorCapturedHook,
+    OnCleanup,
+    SetupBindings,
+    SetupResult,
+    SuspenseBoundary,
+} from "./interfaces"
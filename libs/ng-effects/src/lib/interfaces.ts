@@ -1,16 +1,32 @@
-import { TeardownLogic } from "rxjs"
+import { Observable, TeardownLogic } from "rxjs"
+
+export interface SetupBindings {
+    [key: string]: any
+}
+
+export type SetupResult = void | PromiseLike<unknown> | Observable<unknown> | SetupBindings
 
 export interface OnConnect {
-    ngOnConnect(): void
+    ngOnConnect(): SetupResult
+}
+
+export type ConnectableFunction<T = any, R extends SetupResult = SetupResult> = (ctx: T) => R
+
+export type ConnectStatus = "pending" | "ready" | "error"
+
+export interface SuspenseBoundary {
+    register(): () => void
 }
 
-export type ConnectableFunction<T = any> = (ctx: T) => void
+export type EffectHook = (...args: any[]) => TeardownLogic
+
+export type OnCleanup = (fn: () => void) => void
 
-export type EffectHook = () => TeardownLogic
+export type EffectCallback = (onCleanup: OnCleanup) => TeardownLogic
 
 export type Context = { [key: string]: any }
 
-export const enum LifecycleHook {
+export enum LifecycleHook {
     OnInit,
     OnChanges,
     AfterViewInit,
@@ -18,8 +34,38 @@ export const enum LifecycleHook {
     OnDestroy,
     DoCheck,
     AfterViewChecked,
+    AfterContentInit,
+    AfterContentChecked,
 }
 
+export type EffectFlush = "pre" | "post" | "sync"
+
 export interface EffectOptions {
     watch?: boolean
+    flush?: EffectFlush
+    name?: string
+    ssr?: boolean
+    onStop?: () => void
+}
+
+export interface ReactiveOptions {
+    shallow?: boolean
+}
+
+export type EffectErrorPolicy = "rethrow" | "log" | "retry"
+
+export interface ConnectOptions {
+    deep?: boolean
+    errorPolicy?: EffectErrorPolicy
+    effectLoopLimit?: number
+}
+
+export type ErrorCapturedHook = (error: any, context: Context) => boolean | void
+
+export interface EffectErrorHandler {
+    handleError(error: any): void
+}
+
+export interface ContextKey<T> extends Symbol {
+    readonly __type?: T
 }
@@ -0,0 +1,27 @@
+import { Observable, ReplaySubject } from "rxjs"
+import { effect } from "./utils"
+import { Ref, shallowRef } from "./ref"
+import { watch, WatchSource } from "./watch"
+
+export function toObservable<T>(source: WatchSource<T>): Observable<T> {
+    const subject = new ReplaySubject<T>(1)
+
+    watch(source, value => subject.next(value), { immediate: true })
+    effect(() => () => subject.complete())
+
+    return subject.asObservable()
+}
+
+export function fromObservable<T>(source: Observable<T>): Readonly<Ref<T | undefined>>
+export function fromObservable<T>(source: Observable<T>, initialValue: T): Readonly<Ref<T>>
+export function fromObservable<T>(source: Observable<T>, initialValue?: T) {
+    const ref = shallowRef(initialValue)
+
+    effect(() =>
+        source.subscribe(value => {
+            ref.value = value
+        }),
+    )
+
+    return ref
+}
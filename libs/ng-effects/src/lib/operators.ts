@@ -0,0 +1,43 @@
+import { concat, EMPTY, MonoTypeOperatorFunction, Observable, of } from "rxjs"
+import { filter, mapTo, take, takeUntil } from "rxjs/operators"
+import { getContext, getScheduler } from "./context"
+import { Context, LifecycleHook } from "./interfaces"
+
+function getLifecycle(context: Context): Observable<LifecycleHook> {
+    const scheduler = getScheduler(context)
+    if (scheduler.closed) {
+        return EMPTY
+    }
+    return scheduler.pipe(
+        filter((lifecycle): lifecycle is LifecycleHook => lifecycle !== undefined),
+    )
+}
+
+function getDestroyed(context: Context): Observable<void> {
+    const scheduler = getScheduler(context)
+    if (scheduler.closed) {
+        return of(undefined)
+    }
+    return concat(
+        getLifecycle(context).pipe(filter(lifecycle => lifecycle === LifecycleHook.OnDestroy)),
+        of(undefined),
+    ).pipe(take(1), mapTo(undefined))
+}
+
+export function lifecycle$(): Observable<LifecycleHook> {
+    return getLifecycle(getContext())
+}
+
+export function whenRendered$(): Observable<void> {
+    const context = getContext()
+    return getLifecycle(context).pipe(
+        filter(lifecycle => lifecycle === LifecycleHook.WhenRendered),
+        mapTo(undefined),
+        takeUntil(getDestroyed(context)),
+    )
+}
+
+export function takeUntilDestroyed<T>(): MonoTypeOperatorFunction<T> {
+    const destroyed = getDestroyed(getContext())
+    return source => source.pipe(takeUntil(destroyed))
+}
@@ -0,0 +1,36 @@
+import { getContext, getParentContext } from "./context"
+import { Context, ContextKey } from "./interfaces"
+
+const providedMap = new WeakMap<Context, Map<ContextKey<any> | string, any>>()
+
+function getProvided(context: Context) {
+    let provided = providedMap.get(context)
+    if (!provided) {
+        provided = new Map()
+        providedMap.set(context, provided)
+    }
+    return provided
+}
+
+export function createContextKey<T>(description?: string): ContextKey<T> {
+    return Symbol(description)
+}
+
+export function provideContext<T>(key: ContextKey<T> | string, value: T) {
+    getProvided(getContext()).set(key, value)
+}
+
+export function injectContext<T>(key: ContextKey<T> | string, defaultValue?: T): T {
+    let current = getParentContext(getContext())
+    while (current) {
+        const provided = providedMap.get(current)
+        if (provided && provided.has(key)) {
+            return provided.get(key)
+        }
+        current = getParentContext(current)
+    }
+    if (arguments.length < 2) {
+        throw new Error(`[ngfx] No context provided for key "${String(key)}".`)
+    }
+    return defaultValue as T
+}
@@ -1,6 +1,6 @@
 import { Provider } from "@angular/core"
-import { ConnectableFunction } from "./interfaces"
-import { CONNECTABLE } from "./constants"
+import { ConnectableFunction, ConnectOptions } from "./interfaces"
+import { CONNECT_OPTIONS, CONNECTABLE, ZONELESS } from "./constants"
 
 export function connectable<T>(fn: ConnectableFunction<T>): Provider[] {
     return [
@@ -11,3 +11,21 @@ export function connectable<T>(fn: ConnectableFunction<T>): Provider[] {
         },
     ]
 }
+
+export function connectOptions(options: ConnectOptions): Provider[] {
+    return [
+        {
+            provide: CONNECT_OPTIONS,
+            useValue: options,
+        },
+    ]
+}
+
+export function zoneless(): Provider[] {
+    return [
+        {
+            provide: ZONELESS,
+            useValue: true,
+        },
+    ]
+}
@@ -0,0 +1,183 @@
+import { Context, ReactiveOptions } from "./interfaces"
+import {
+    addDeps,
+    runInContext,
+    targetSymbol,
+    toRawValue,
+    trackIteration,
+    triggerIteration,
+    untracked,
+} from "./context"
+import { getLifecycleHook } from "./lifecycle"
+import { batch, notifyChange } from "./effects"
+import {
+    CollectionMethods,
+    createCollectionMethods,
+    getCollectionProperty,
+    isCollection,
+} from "./collections"
+
+const cacheMap = new WeakMap<object, WeakMap<object, any>>()
+
+function getCache(context: object) {
+    let cache = cacheMap.get(context)
+    if (!cache) {
+        cache = new WeakMap()
+        cacheMap.set(context, cache)
+    }
+    return cache
+}
+
+// Built-ins whose methods rely on internal slots and fail when called on a proxy.
+const nonReactiveTypes: Function[] = [Date, RegExp, Promise, Error, ArrayBuffer, DataView]
+
+export function isReactiveTarget(value: object) {
+    return (
+        !Object.isFrozen(value) &&
+        !ArrayBuffer.isView(value) &&
+        !nonReactiveTypes.some(type => value instanceof type) &&
+        !(typeof Node !== "undefined" && value instanceof Node)
+    )
+}
+
+export function toReactive(context: Context, value: any, opts: ReactiveOptions) {
+    if (typeof value === "object" && value !== null && isReactiveTarget(value)) {
+        const cache = getCache(context)
+        if (cache.has(value)) {
+            return cache.get(value)
+        }
+        const state = reactiveFactory(context, value, opts)
+        cache.set(value, state)
+        return state
+    }
+    return value
+}
+
+const arrayMutators = new Set<PropertyKey>([
+    "push",
+    "pop",
+    "shift",
+    "unshift",
+    "splice",
+    "sort",
+    "reverse",
+    "fill",
+    "copyWithin",
+])
+
+const arraySearches = new Set<PropertyKey>(["includes", "indexOf", "lastIndexOf"])
+
+const arrayIterators = new Set<PropertyKey>([
+    "length",
+    Symbol.iterator,
+    "concat",
+    "entries",
+    "every",
+    "filter",
+    "find",
+    "findIndex",
+    "flat",
+    "flatMap",
+    "forEach",
+    "join",
+    "keys",
+    "map",
+    "reduce",
+    "reduceRight",
+    "slice",
+    "some",
+    "toString",
+    "values",
+])
+
+function createArrayMethod(target: any[], p: PropertyKey) {
+    const method = Reflect.get(Array.prototype, p)
+    if (arrayMutators.has(p)) {
+        return function(this: any[], ...args: any[]) {
+            return batch(() => untracked(() => method.apply(this, args)))
+        }
+    }
+    return function(...args: any[]) {
+        const result = method.apply(target, args)
+        return result === -1 || result === false
+            ? method.apply(target, args.map(toRawValue))
+            : result
+    }
+}
+
+export function reactiveFactory<T extends object>(
+    context: any,
+    source: T,
+    opts: ReactiveOptions = { shallow: true },
+): T {
+    let owner: any
+    let collectionMethods: CollectionMethods | undefined
+    const proxy = new Proxy<T>(source, {
+        get(target: T, p: PropertyKey, receiver: any): any {
+            if (p === targetSymbol) {
+                return target
+            }
+            if (collectionMethods) {
+                return getCollectionProperty(target as any, p, collectionMethods)
+            }
+            if (Array.isArray(target)) {
+                if (arrayIterators.has(p) || arraySearches.has(p)) {
+                    trackIteration(target)
+                }
+                if (arrayMutators.has(p) || arraySearches.has(p)) {
+                    return createArrayMethod(target, p)
+                }
+            }
+            const value = Reflect.get(target, p, receiver)
+            const desc = Reflect.getOwnPropertyDescriptor(target, p)
+            if (p === "__ngContext__") {
+                return value
+            }
+            if (desc && desc.enumerable) {
+                addDeps(target, p)
+            }
+            if (!desc || (!desc.writable && !desc.configurable) || opts.shallow) {
+                return value
+            }
+            if (typeof value === "function") {
+                return new Proxy(value, {
+                    apply(fn: any, thisArg: any, argArray?: any): any {
+                        return runInContext(owner, getLifecycleHook(), function() {
+                            return fn.apply(thisArg, argArray)
+                        })
+                    },
+                })
+            }
+            return toReactive(owner, value, opts)
+        },
+        set(target: T, p: PropertyKey, value: any, receiver: any): boolean {
+            const hadKey = Reflect.has(target, p)
+            const success = Reflect.set(target, p, value, receiver)
+            if (!hadKey || Array.isArray(target)) {
+                triggerIteration(target)
+            }
+            notifyChange(owner, proxy)
+            return success
+        },
+        deleteProperty(target: T, p: PropertyKey): boolean {
+            const hadKey = Reflect.has(target, p)
+            const success = Reflect.deleteProperty(target, p)
+            if (hadKey) {
+                triggerIteration(target)
+                notifyChange(owner, proxy)
+            }
+            return success
+        },
+        ownKeys(target: T): PropertyKey[] {
+            trackIteration(target)
+            return Reflect.ownKeys(target)
+        },
+    })
+    owner = context || proxy
+    if (isCollection(source)) {
+        collectionMethods = createCollectionMethods(source, proxy as any, owner, value =>
+            opts.shallow ? value : toReactive(owner, value, opts),
+        )
+    }
+    return proxy
+}
@@ -0,0 +1,79 @@
+import { addDeps, getRunningContext, refSymbol, toRawValue } from "./context"
+import { notifyChange } from "./effects"
+import { reactiveFactory } from "./reactive"
+import { Context } from "./interfaces"
+
+export interface Ref<T = any> {
+    value: T
+}
+
+export type UnwrapRef<T> = T extends Ref<infer V> ? V : T
+
+interface RefState {
+    version: number
+    context?: Context
+}
+
+const refStates = new WeakMap<Ref, RefState>()
+
+function isObject(value: any): value is object {
+    return typeof value === "object" && value !== null
+}
+
+function createRef<T>(rawValue: T, shallow: boolean): Ref<T> {
+    const state: RefState = { version: 0, context: getRunningContext() }
+    const toValue = (value: T): T =>
+        !shallow && isObject(value)
+            ? reactiveFactory(state.context, value, { shallow: false })
+            : value
+    let raw = toRawValue(rawValue)
+    let current = toValue(rawValue)
+
+    const instance = {
+        [refSymbol]: true,
+        get value() {
+            addDeps(state, "version")
+            return current
+        },
+        set value(value: T) {
+            const next = shallow ? value : toRawValue(value)
+            if (!Object.is(next, raw)) {
+                raw = next
+                current = shallow ? value : toValue(value)
+                triggerRef(instance)
+            }
+        },
+    }
+
+    refStates.set(instance, state)
+
+    return instance
+}
+
+export function ref<T>(value: T): Ref<UnwrapRef<T>>
+export function ref<T = any>(): Ref<T | undefined>
+export function ref(value?: any) {
+    return isRef(value) ? value : createRef(value, false)
+}
+
+export function shallowRef<T>(value: T): Ref<T>
+export function shallowRef<T = any>(): Ref<T | undefined>
+export function shallowRef(value?: any) {
+    return isRef(value) ? value : createRef(value, true)
+}
+
+export function triggerRef(source: Ref) {
+    const state = refStates.get(source)
+    if (state) {
+        state.version += 1
+        notifyChange(state.context, source)
+    }
+}
+
+export function isRef<T>(value: Ref<T> | unknown): value is Ref<T> {
+    return isObject(value) && Reflect.get(value, refSymbol) === true
+}
+
+export function unref<T>(value: T | Ref<T>): T {
+    return isRef(value) ? value.value : value
+}
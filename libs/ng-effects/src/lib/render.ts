@@ -0,0 +1,48 @@
+import { ChangeDetectorRef } from "@angular/core"
+import { getInjector, getScheduler, isServiceContext } from "./context"
+import { viewChecked } from "./scheduler"
+import { Context } from "./interfaces"
+
+const zonelessContexts = new WeakSet<Context>()
+const renderQueue = new Set<Context>()
+const rendering = new Set<Context>()
+
+let flushScheduled = false
+
+export function enableZoneless(context: Context) {
+    zonelessContexts.add(context)
+}
+
+export function scheduleRender(context: Context) {
+    // Writes made while the view is being rendered are already reflected in it.
+    if (!zonelessContexts.has(context) || rendering.has(context) || isServiceContext(context)) {
+        return
+    }
+    getInjector(context)
+        .get(ChangeDetectorRef)
+        .markForCheck()
+    renderQueue.add(context)
+    if (!flushScheduled) {
+        flushScheduled = true
+        Promise.resolve().then(flushRenderQueue)
+    }
+}
+
+function flushRenderQueue() {
+    const contexts = Array.from(renderQueue)
+    flushScheduled = false
+    renderQueue.clear()
+    for (const context of contexts) {
+        if (!getScheduler(context).closed) {
+            rendering.add(context)
+            try {
+                getInjector(context)
+                    .get(ChangeDetectorRef)
+                    .detectChanges()
+                viewChecked(context)
+            } finally {
+                rendering.delete(context)
+            }
+        }
+    }
+}
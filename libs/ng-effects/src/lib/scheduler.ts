@@ -0,0 +1,43 @@
+import { Context, LifecycleHook } from "./interfaces"
+import { getContext, getScheduler, runInContext, untracked } from "./context"
+import { rethrowErrors } from "./errors"
+
+let scheduleDepth = 0
+
+export function schedule(lifecycle: LifecycleHook, context: Context = getContext()) {
+    scheduleDepth += 1
+    try {
+        runInContext(context, lifecycle, () =>
+            untracked(() => getScheduler(context).next(lifecycle)),
+        )
+    } finally {
+        scheduleDepth -= 1
+    }
+    if (scheduleDepth === 0) {
+        rethrowErrors(context)
+    }
+}
+
+export function check(context: any) {
+    schedule(LifecycleHook.DoCheck, context)
+}
+
+export function contentInit(context: any) {
+    schedule(LifecycleHook.AfterContentInit, context)
+}
+
+export function contentChecked(context: any) {
+    schedule(LifecycleHook.AfterContentChecked, context)
+}
+
+export function viewInit(context: any) {
+    schedule(LifecycleHook.AfterViewInit, context)
+}
+
+export function viewChecked(context: any) {
+    schedule(LifecycleHook.AfterViewChecked, context)
+}
+
+export function destroy(context: any) {
+    schedule(LifecycleHook.OnDestroy, context)
+}
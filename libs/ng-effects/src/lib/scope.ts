@@ -0,0 +1,148 @@
+import { TeardownLogic } from "rxjs"
+import { getRunningContext, unsubscribe } from "./context"
+import { Context, EffectHook } from "./interfaces"
+
+export interface EffectScope {
+    readonly active: boolean
+    readonly paused: boolean
+    run<T>(fn: () => T): T | undefined
+    stop(): void
+    pause(): void
+    resume(): void
+}
+
+interface ScopeState {
+    context: Context | undefined
+    disposers: Set<() => void>
+    contexts: Map<Context, () => void>
+    scopes: Set<EffectScope>
+}
+
+const scopeStates = new WeakMap<EffectScope, ScopeState>()
+
+let activeScope: EffectScope | undefined
+
+export function getCurrentScope(): EffectScope | undefined {
+    return activeScope
+}
+
+function getScopeState(scope: EffectScope) {
+    return scopeStates.get(scope) as ScopeState
+}
+
+export function recordDisposer(scope: EffectScope, dispose: () => void) {
+    getScopeState(scope).disposers.add(dispose)
+}
+
+export function getScopeContext(scope: EffectScope) {
+    return getScopeState(scope).context
+}
+
+export function recordContext(scope: EffectScope, context: Context, resume: () => void) {
+    getScopeState(scope).contexts.set(context, resume)
+}
+
+export function onScopeDispose(fn: () => void) {
+    if (activeScope) {
+        recordDisposer(activeScope, fn)
+    }
+}
+
+export function createScopedHook(scope: EffectScope, hook: EffectHook): EffectHook {
+    return function scopedHook(this: any, ...args: any[]): TeardownLogic {
+        if (!scope.active || scope.paused) {
+            return
+        }
+        const { disposers } = getScopeState(scope)
+        const teardown = scope.run(() => hook.apply(this, args as []))
+        let disposed = false
+
+        function dispose() {
+            if (!disposed) {
+                disposed = true
+                disposers.delete(dispose)
+                unsubscribe(teardown)
+            }
+        }
+
+        disposers.add(dispose)
+        return dispose
+    }
+}
+
+export function effectScope(): EffectScope {
+    const parent = activeScope
+    const state: ScopeState = {
+        context: getRunningContext() || (parent && getScopeContext(parent)),
+        disposers: new Set(),
+        contexts: new Map(),
+        scopes: new Set(),
+    }
+    let active = true
+    let paused = false
+
+    const scope: EffectScope = {
+        get active() {
+            return active
+        },
+        get paused() {
+            return paused
+        },
+        run<T>(fn: () => T): T | undefined {
+            if (!active) {
+                return
+            }
+            const previousScope = activeScope
+            activeScope = scope
+            try {
+                return fn()
+            } finally {
+                activeScope = previousScope
+            }
+        },
+        stop() {
+            if (!active) {
+                return
+            }
+            active = false
+            for (const child of state.scopes) {
+                child.stop()
+            }
+            for (const dispose of Array.from(state.disposers)) {
+                dispose()
+            }
+            state.disposers.clear()
+            state.contexts.clear()
+            if (parent) {
+                getScopeState(parent).scopes.delete(scope)
+            }
+        },
+        pause() {
+            if (active) {
+                paused = true
+                for (const child of state.scopes) {
+                    child.pause()
+                }
+            }
+        },
+        resume() {
+            if (active && paused) {
+                paused = false
+                for (const child of state.scopes) {
+                    child.resume()
+                }
+                for (const resume of state.contexts.values()) {
+                    resume()
+                }
+            }
+        },
+    }
+
+    scopeStates.set(scope, state)
+
+    if (parent) {
+        getScopeState(parent).scopes.add(scope)
+    }
+
+    return scope
+}
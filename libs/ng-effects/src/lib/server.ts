@@ -0,0 +1,71 @@
+import { NgZone } from "@angular/core"
+import { makeStateKey, TransferState } from "@angular/platform-browser"
+import { from, Observable } from "rxjs"
+import {
+    getContext,
+    getErrorPolicy,
+    getInjector,
+    isServerContext,
+    noop,
+    untracked,
+} from "./context"
+import { handleError } from "./errors"
+import { toRaw } from "./utils"
+
+declare const Zone: any
+
+function holdRendering(ngZone: NgZone) {
+    if (typeof Zone === "undefined") {
+        return noop
+    }
+    const task = ngZone.run(() =>
+        Zone.current.scheduleMacroTask("ngfx.serverPrefetch", noop, {}, noop, noop),
+    )
+    return function release() {
+        ngZone.run(() => task.invoke())
+    }
+}
+
+export function onServerPrefetch(fn: () => PromiseLike<unknown> | Observable<unknown>) {
+    const context = getContext()
+    if (!isServerContext(context)) {
+        return
+    }
+    const release = holdRendering(getInjector(context).get(NgZone))
+    from(untracked(fn)).subscribe({
+        error: error => {
+            release()
+            handleError(context, error, getErrorPolicy(context))
+        },
+        complete: release,
+    })
+}
+
+export function transferState(key: string, properties: string[]): boolean {
+    const context = getContext<{ [key: string]: any }>()
+    const transfer = getInjector(context).get(TransferState, null)
+    const stateKey = makeStateKey<{ [key: string]: any }>(`ngfx.${key}`)
+
+    if (!transfer) {
+        return false
+    }
+
+    if (isServerContext(context)) {
+        transfer.onSerialize(stateKey, () => {
+            const state: { [key: string]: any } = {}
+            for (const property of properties) {
+                state[property] = toRaw(context)[property]
+            }
+            return state
+        })
+        return false
+    }
+
+    if (transfer.hasKey(stateKey)) {
+        Object.assign(context, transfer.get(stateKey, {}))
+        transfer.remove(stateKey)
+        return true
+    }
+
+    return false
+}
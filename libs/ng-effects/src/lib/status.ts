@@ -0,0 +1,78 @@
+import { ChangeDetectorRef } from "@angular/core"
+import { isObservable, Observable, TeardownLogic } from "rxjs"
+import { getErrorPolicy, getInjector, getScheduler } from "./context"
+import { SUSPENSE } from "./constants"
+import { handleError } from "./errors"
+import { Context, ConnectStatus, SetupResult } from "./interfaces"
+
+const statusMap = new WeakMap<Context, ConnectStatus>()
+const errorMap = new WeakMap<Context, any>()
+
+export function getConnectStatus(context: Context): ConnectStatus {
+    return statusMap.get(context) || "ready"
+}
+
+export function getConnectError(context: Context): any {
+    return errorMap.get(context)
+}
+
+export function isPromiseLike(value: any): value is PromiseLike<unknown> {
+    return Boolean(value) && typeof value.then === "function"
+}
+
+function toPromise(source: Observable<unknown>, cleanup: Set<TeardownLogic>) {
+    return new Promise((resolve, reject) => {
+        cleanup.add(source.subscribe({ error: reject, complete: resolve }))
+    })
+}
+
+export function trackSetup(context: Context, results: SetupResult[], cleanup: Set<TeardownLogic>) {
+    const pending: PromiseLike<unknown>[] = []
+
+    for (const result of results) {
+        if (isObservable(result)) {
+            pending.push(toPromise(result, cleanup))
+        } else if (isPromiseLike(result)) {
+            pending.push(result)
+        }
+    }
+
+    if (!pending.length) {
+        return
+    }
+
+    const injector = getInjector(context)
+    const scheduler = getScheduler(context)
+    const changeDetectorRef = injector.get(ChangeDetectorRef, null)
+    const suspense = injector.get(SUSPENSE, null)
+    const resolve = suspense ? suspense.register() : undefined
+
+    function settle(status: ConnectStatus) {
+        statusMap.set(context, status)
+        changeDetectorRef?.markForCheck()
+        if (resolve) {
+            resolve()
+        }
+    }
+
+    statusMap.set(context, "pending")
+
+    if (resolve) {
+        cleanup.add(resolve)
+    }
+
+    Promise.all(pending).then(
+        () => {
+            if (!scheduler.closed) {
+                settle("ready")
+            }
+        },
+        error => {
+            if (!scheduler.closed) {
+                errorMap.set(context, error)
+                settle("error")
+                handleError(context, error, getErrorPolicy(context))
+            }
+        },
+    )
+}
@@ -0,0 +1,64 @@
+import {
+    AfterContentInit,
+    ChangeDetectorRef,
+    Component,
+    forwardRef,
+    Input,
+    TemplateRef,
+} from "@angular/core"
+import { SUSPENSE } from "./constants"
+import { SuspenseBoundary } from "./interfaces"
+
+@Component({
+    // tslint:disable-next-line:component-selector
+    selector: "ngfx-suspense",
+    template: `
+        <ng-container *ngIf="loading; else content">
+            <ng-container *ngTemplateOutlet="fallback"></ng-container>
+        </ng-container>
+        <ng-template #content>
+            <ng-content></ng-content>
+        </ng-template>
+    `,
+    providers: [
+        {
+            provide: SUSPENSE,
+            useExisting: forwardRef(() => SuspenseComponent),
+        },
+    ],
+})
+export class SuspenseComponent implements SuspenseBoundary, AfterContentInit {
+    @Input()
+    fallback: TemplateRef<any> | null = null
+
+    loading = false
+
+    private pending = 0
+
+    constructor(private changeDetectorRef: ChangeDetectorRef) {}
+
+    ngAfterContentInit() {
+        this.loading = this.pending > 0
+    }
+
+    register() {
+        let resolved = false
+        this.pending += 1
+        this.update()
+        return () => {
+            if (!resolved) {
+                resolved = true
+                this.pending -= 1
+                this.update()
+            }
+        }
+    }
+
+    private update() {
+        // Descendants can settle while this view is being checked.
+        Promise.resolve().then(() => {
+            this.loading = this.pending > 0
+            this.changeDetectorRef.markForCheck()
+        })
+    }
+}
@@ -0,0 +1,10 @@
+import { NgModule } from "@angular/core"
+import { CommonModule } from "@angular/common"
+import { SuspenseComponent } from "./suspense.component"
+
+@NgModule({
+    imports: [CommonModule],
+    declarations: [SuspenseComponent],
+    exports: [SuspenseComponent],
+})
+export class SuspenseModule {}
@@ -0,0 +1,122 @@
+import { isDevMode } from "@angular/core"
+import { from, isObservable, merge, Observable } from "rxjs"
+import { exposeBindings, isBindings } from "./bindings"
+import { ConnectableFunction, Context, SetupBindings } from "./interfaces"
+import { isPromiseLike } from "./status"
+
+export interface Trait<T = any> {
+    readonly name: string
+    readonly requires: Trait[]
+    readonly setup: ConnectableFunction<T>
+}
+
+export interface TraitOptions {
+    requires?: Trait[]
+}
+
+type TraitRequirement<T> = T extends Trait<infer C> ? C : never
+
+type UnionToIntersection<U> = (U extends any
+  ? (union: U) => void
+  : never) extends (intersection: infer I) => void
+    ? I
+    : never
+
+export type TraitContext<T extends Trait[]> = UnionToIntersection<TraitRequirement<T[number]>>
+
+const initialisedTraits = new WeakMap<Context, Set<Trait>>()
+
+export function trait<T>(
+    name: string,
+    setup: ConnectableFunction<T>,
+    options: TraitOptions = {},
+): Trait<T> {
+    return {
+        name,
+        requires: options.requires || [],
+        setup,
+    }
+}
+
+function throwTraitBindingConflictError(current: Trait, key: string): never {
+    throw new Error(`[ngfx] Trait "${current.name}" redefines setup binding "${key}".`)
+}
+
+function throwCircularTraitError(path: Trait[]): never {
+    throw new Error(
+        `[ngfx] Circular trait dependency: ${path.map(current => current.name).join(" -> ")}.`,
+    )
+}
+
+// Requirements are initialised before the traits that depend on them, otherwise traits
+// keep the order they were composed in.
+function resolveTraits(traits: Trait[]): Trait[] {
+    const resolved = new Set<Trait>()
+    const path: Trait[] = []
+
+    function visit(current: Trait) {
+        if (resolved.has(current)) {
+            return
+        }
+        if (path.includes(current)) {
+            throwCircularTraitError([...path.slice(path.indexOf(current)), current])
+        }
+        path.push(current)
+        for (const requirement of current.requires) {
+            visit(requirement)
+        }
+        path.pop()
+        resolved.add(current)
+    }
+
+    for (const current of traits) {
+        visit(current)
+    }
+
+    return Array.from(resolved)
+}
+
+function getInitialisedTraits(context: Context) {
+    let initialised = initialisedTraits.get(context)
+    if (!initialised) {
+        initialised = new Set()
+        initialisedTraits.set(context, initialised)
+    }
+    return initialised
+}
+
+/**
+ * Composes traits into one connectable function. Required traits are set up before the traits
+ * that depend on them even when they aren't listed, but each trait is set up at most once per
+ * context, so traits shared by several compositions on the same component only run once.
+ * Bindings are exposed on the context and async results keep it pending until they settle.
+ */
+export function compose<T extends Trait[]>(...traits: T): ConnectableFunction<TraitContext<T>> {
+    const ordered = resolveTraits(traits)
+
+    return (ctx: TraitContext<T>) => {
+        const context = ctx as TraitContext<T> & Context
+        const initialised = getInitialisedTraits(context)
+        const bindings: SetupBindings = {}
+        const pending: Observable<unknown>[] = []
+        for (const current of ordered) {
+            if (initialised.has(current)) {
+                continue
+            }
+            initialised.add(current)
+            const result = current.setup(context)
+            if (isObservable(result) || isPromiseLike(result)) {
+                pending.push(from(result))
+            } else if (isBindings(result)) {
+                for (const key of Object.keys(result)) {
+                    if (isDevMode() && key in bindings) {
+                        throwTraitBindingConflictError(current, key)
+                    }
+                    bindings[key] = result[key]
+                }
+            }
+        }
+        exposeBindings(context, [bindings])
+        return pending.length ? merge(...pending) : undefined
+    }
+}
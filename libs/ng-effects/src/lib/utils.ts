@@ -1,5 +1,7 @@
-import { addEffect, getContext, reactiveFactory, targetSymbol } from "./connect"
-import { TeardownLogic } from "rxjs"
+import { getContext, targetSymbol } from "./context"
+import { addEffect } from "./effects"
+import { reactiveFactory } from "./reactive"
+import { EffectCallback, EffectFlush } from "./interfaces"
 
 export function context<T extends object>(): T {
     return getContext<T>()
@@ -17,12 +19,28 @@ export function shallowReactive<T extends object>(value: T): T {
     return reactiveFactory(getContext(), value)
 }
 
-export function watchEffect(fn: () => TeardownLogic) {
-    addEffect(fn, { watch: true })
+export interface WatchEffectOptions {
+    flush?: EffectFlush
+    name?: string
+    /**
+     * Run the effect inside the Angular zone on the server, so that rendering waits for the
+     * timers and requests it starts. By default server effects run outside of the zone and
+     * only `onServerPrefetch()` holds rendering.
+     */
+    ssr?: boolean
 }
 
-export function effect(fn: () => TeardownLogic) {
-    addEffect(fn)
+export function watchEffect(fn: EffectCallback, options: WatchEffectOptions = {}) {
+    return addEffect(fn, {
+        watch: true,
+        flush: options.flush,
+        name: options.name,
+        ssr: options.ssr,
+    })
+}
+
+export function effect(fn: EffectCallback, options: WatchEffectOptions = {}) {
+    return addEffect(fn, { flush: options.flush, name: options.name, ssr: options.ssr })
 }
 
 export function isProxy(value: any) {
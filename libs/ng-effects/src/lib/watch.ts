@@ -0,0 +1,147 @@
+import { SimpleChange } from "@angular/core"
+import { TeardownLogic } from "rxjs"
+import { addDeps, getContext, unsubscribe, untracked } from "./context"
+import { addEffect } from "./effects"
+import { onChanges, onDestroy } from "./connect"
+import { toRaw, WatchEffectOptions } from "./utils"
+import { isRef, Ref } from "./ref"
+import { ComputedRef } from "./computed"
+import { OnCleanup } from "./interfaces"
+
+export type WatchSource<T = any> = Ref<T> | ComputedRef<T> | (() => T)
+
+export type MultiWatchSources = (WatchSource | PropertyKey)[]
+
+export type MapSources<T> = {
+    [K in keyof T]: T[K] extends WatchSource<infer V> ? V : any
+}
+
+export type WatchCallback<V = any, OV = any> = (value: V, oldValue: OV, onCleanup: OnCleanup) => any
+
+export type WatchStopHandle = () => void
+
+export type WatchInputCallback<V = any> = (
+    value: V,
+    previousValue: V | undefined,
+    change: SimpleChange,
+) => TeardownLogic
+
+export interface WatchOptions extends WatchEffectOptions {
+    immediate?: boolean
+    deep?: boolean
+}
+
+export function watch<T extends Readonly<MultiWatchSources>>(
+    sources: T,
+    callback: WatchCallback<MapSources<T>, MapSources<T> | undefined>,
+    options?: WatchOptions,
+): WatchStopHandle
+export function watch<T>(
+    source: WatchSource<T>,
+    callback: WatchCallback<T, T | undefined>,
+    options?: WatchOptions,
+): WatchStopHandle
+export function watch<T = any, K extends keyof T = keyof T>(
+    source: K,
+    callback: WatchCallback<T[K], T[K] | undefined>,
+    options?: WatchOptions,
+): WatchStopHandle
+export function watch(
+    source: WatchSource | PropertyKey | MultiWatchSources,
+    callback: WatchCallback,
+    options: WatchOptions = {},
+): WatchStopHandle {
+    const context = getContext()
+    const isMultiSource = Array.isArray(source)
+    const getter = isMultiSource
+        ? () => (source as MultiWatchSources).map(value => readSource(context, value))
+        : () => readSource(context, source as WatchSource | PropertyKey)
+    const cleanups = new Set<() => void>()
+    let oldValue: any
+    let initialised = false
+
+    function onCleanup(fn: () => void) {
+        cleanups.add(fn)
+    }
+
+    function runCleanups() {
+        for (const cleanup of cleanups) {
+            cleanup()
+        }
+        cleanups.clear()
+    }
+
+    return addEffect(
+        () => {
+            const value = getter()
+            if (options.deep) {
+                traverse(value)
+            }
+            if (initialised || options.immediate) {
+                if (
+                    !initialised ||
+                    options.deep ||
+                    (isMultiSource
+                        ? value.some((current: any, i: number) => hasChanged(current, oldValue[i]))
+                        : hasChanged(value, oldValue))
+                ) {
+                    const previousValue = oldValue
+                    runCleanups()
+                    untracked(() => callback(value, previousValue, onCleanup))
+                }
+            }
+            initialised = true
+            oldValue = value
+        },
+        {
+            watch: true,
+            flush: options.flush,
+            name: options.name,
+            ssr: options.ssr,
+            onStop: runCleanups,
+        },
+    )
+}
+
+export function watchInput<T = any, K extends keyof T = keyof T>(
+    name: K,
+    callback: WatchInputCallback<T[K]>,
+) {
+    let teardown: TeardownLogic
+
+    onChanges(changes => {
+        const change = changes[name as string]
+        if (change) {
+            unsubscribe(teardown)
+            teardown = callback(change.currentValue, change.previousValue, change)
+        }
+    })
+
+    onDestroy(() => unsubscribe(teardown))
+}
+
+function readSource(context: any, source: WatchSource | PropertyKey) {
+    if (isRef(source)) {
+        return source.value
+    }
+    return typeof source === "function" ? source() : context[source]
+}
+
+function hasChanged(value: any, oldValue: any) {
+    return !Object.is(value, oldValue)
+}
+
+function traverse(value: any, seen = new Set<any>()) {
+    if (typeof value !== "object" || value === null || seen.has(value)) {
+        return
+    }
+    const raw = toRaw(value)
+    seen.add(value)
+    if (Array.isArray(raw)) {
+        addDeps(raw, "length")
+    }
+    for (const key of Object.keys(raw)) {
+        addDeps(raw, key)
+        traverse(raw[key], seen)
+    }
+}
@@ -0,0 +1,137 @@
+import {
+    ChangeDetectorRef,
+    ErrorHandler,
+    Injector,
+    IterableDiffers,
+    KeyValueDiffers,
+    StaticProvider,
+    ViewContainerRef,
+    ɵdefaultIterableDiffers as defaultIterableDiffers,
+    ɵdefaultKeyValueDiffers as defaultKeyValueDiffers,
+} from "@angular/core"
+import { TeardownLogic } from "rxjs"
+import {
+    check,
+    connect,
+    CONNECTABLE,
+    ConnectableFunction,
+    contentChecked,
+    contentInit,
+    destroy,
+    EFFECT_ERROR_HANDLER,
+    EffectDebugInfo,
+    getDebugInfo,
+    init,
+    LifecycleHook,
+    viewChecked,
+    viewInit,
+    ɵgetCleanups as getCleanups,
+} from "ng-effects"
+
+export interface ConnectableHarnessOptions<T extends object> {
+    state?: T
+    providers?: StaticProvider[]
+}
+
+export interface ConnectableHarness<T extends object> {
+    readonly context: T
+    readonly injector: Injector
+    init(): void
+    check(): void
+    viewInit(): void
+    rendered(): void
+    destroy(): void
+    getEffects(): EffectDebugInfo[]
+    getCleanups(lifecycle?: LifecycleHook): TeardownLogic[]
+    expectEffects(count: number): void
+    expectCleanups(count: number, lifecycle?: LifecycleHook): void
+}
+
+export class HarnessChangeDetectorRef extends ChangeDetectorRef {
+    markForCheck() {}
+    detach() {}
+    detectChanges() {}
+    checkNoChanges() {}
+    reattach() {}
+}
+
+export function createConnectableHarness<T extends object>(
+    fn: ConnectableFunction<T>,
+    options: ConnectableHarnessOptions<T> = {},
+): ConnectableHarness<T> {
+    const parent = Injector.create({
+        providers: [
+            { provide: IterableDiffers, useValue: defaultIterableDiffers },
+            { provide: KeyValueDiffers, useValue: defaultKeyValueDiffers },
+            { provide: ErrorHandler, useValue: new ErrorHandler() },
+            { provide: EFFECT_ERROR_HANDLER, useExisting: ErrorHandler },
+        ],
+        name: "ConnectableHarness",
+    })
+    const injector = Injector.create({
+        parent,
+        providers: [
+            { provide: CONNECTABLE, useValue: fn, multi: true },
+            { provide: ChangeDetectorRef, useClass: HarnessChangeDetectorRef, deps: [] },
+            // Lets `inject()` resolve `Self` and `SkipSelf` flags without a view.
+            { provide: ViewContainerRef, useValue: { parentInjector: parent } },
+            ...(options.providers || []),
+        ],
+    })
+    const context = connect(options.state || ({} as T), injector)
+
+    function collectCleanups(lifecycle?: LifecycleHook) {
+        const cleanups = getCleanups(context) as Map<LifecycleHook, Set<TeardownLogic>>
+        const sets = lifecycle === undefined ? cleanups.values() : [cleanups.get(lifecycle)]
+        const teardowns: TeardownLogic[] = []
+        for (const set of sets) {
+            for (const teardown of set || []) {
+                if (teardown) {
+                    teardowns.push(teardown)
+                }
+            }
+        }
+        return teardowns
+    }
+
+    return {
+        context,
+        injector,
+        init() {
+            init(context)
+        },
+        check() {
+            check(context)
+        },
+        viewInit() {
+            contentInit(context)
+            viewInit(context)
+        },
+        rendered() {
+            contentChecked(context)
+            viewChecked(context)
+        },
+        destroy() {
+            destroy(context)
+        },
+        getEffects() {
+            return getDebugInfo(context).effects
+        },
+        getCleanups: collectCleanups,
+        expectEffects(count: number) {
+            const actual = getDebugInfo(context).effects.length
+            if (actual !== count) {
+                throw new Error(`[ngfx] Expected ${count} active effect(s), found ${actual}.`)
+            }
+        },
+        expectCleanups(count: number, lifecycle?: LifecycleHook) {
+            const actual = collectCleanups(lifecycle).length
+            if (actual !== count) {
+                const hook = lifecycle === undefined ? "" : ` for ${LifecycleHook[lifecycle]}`
+                throw new Error(
+                    `[ngfx] Expected ${count} pending cleanup(s)${hook}, found ${actual}.`,
+                )
+            }
+        },
+    }
+}
@@ -0,0 +1,16 @@
+export {
+    createConnectableHarness,
+    ConnectableHarness,
+    ConnectableHarnessOptions,
+    HarnessChangeDetectorRef,
+} from "./harness"
+export {
+    createConnectableMarbleHarness,
+    createEffectsMarbleHarness,
+    createTimeline,
+    ConnectableMarbleHarness,
+    EffectsMarbleHarness,
+    EffectsMarbleHarnessOptions,
+    EffectTimeline,
+    MarbleHarness,
+} from "./marbles"
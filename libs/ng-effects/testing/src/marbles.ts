@@ -0,0 +1,205 @@
+import { ChangeDetectorRef, EventEmitter, Injector, StaticProvider } from "@angular/core"
+import { Observable, ReplaySubject, Subject, Subscription } from "rxjs"
+import { filter, map } from "rxjs/operators"
+import {
+    ConnectableFunction,
+    HostEmitter,
+    HostRef,
+    ɵcreateEffectsFactory as createEffectsFactory,
+    ɵcreateHostRef as createHostRef,
+    ɵDestroyObserver as DestroyObserver,
+    ɵRenderApi as RenderApi,
+    ɵrunEffects as runEffects,
+} from "ng-effects"
+import {
+    ConnectableHarness,
+    ConnectableHarnessOptions,
+    createConnectableHarness,
+    HarnessChangeDetectorRef,
+} from "./harness"
+
+interface TimelineEvent {
+    key: string
+    value: any
+}
+
+export interface EffectTimeline {
+    readonly lifecycle: Observable<string>
+    select<T = any>(key: string): Observable<T>
+    record(key: string, value: any): void
+    recordLifecycle(event: string): void
+}
+
+export interface MarbleHarness {
+    readonly timeline: EffectTimeline
+}
+
+export interface ConnectableMarbleHarness<T extends object>
+    extends ConnectableHarness<T>,
+        MarbleHarness {}
+
+export interface EffectsMarbleHarnessOptions {
+    providers?: StaticProvider[]
+}
+
+export interface EffectsMarbleHarness<T extends object> extends MarbleHarness {
+    readonly context: T
+    readonly injector: Injector
+    init(): void
+    check(): void
+    rendered(): void
+    destroy(): void
+}
+
+const lifecycleKey = "ngfx.lifecycle"
+
+// Events are replayed so that anything recorded before `expectObservable()`
+// subscribes is reported on the frame it happened.
+export function createTimeline(): EffectTimeline {
+    const events = new ReplaySubject<TimelineEvent>()
+
+    function select(key: string) {
+        return events.pipe(
+            filter(event => event.key === key),
+            map(event => event.value),
+        )
+    }
+
+    return {
+        lifecycle: select(lifecycleKey),
+        select,
+        record(key: string, value: any) {
+            events.next({ key, value })
+        },
+        recordLifecycle(event: string) {
+            events.next({ key: lifecycleKey, value: event })
+        },
+    }
+}
+
+function isEmitter(value: any): value is Subject<any> {
+    return value instanceof HostEmitter || value instanceof EventEmitter
+}
+
+function recordWrites<T extends object>(
+    source: T,
+    timeline: EffectTimeline,
+    subscription: Subscription,
+): T {
+    for (const key of Object.keys(source)) {
+        const value = (source as any)[key]
+        if (isEmitter(value)) {
+            subscription.add(value.subscribe(event => timeline.record(key, event)))
+        }
+    }
+    return new Proxy(source, {
+        set(target: T, p: PropertyKey, value: any): boolean {
+            const success = Reflect.set(target, p, value)
+            if (typeof p === "string" && !isEmitter(value)) {
+                timeline.record(p, value)
+            }
+            return success
+        },
+    })
+}
+
+export function createConnectableMarbleHarness<T extends object>(
+    fn: ConnectableFunction<T>,
+    options: ConnectableHarnessOptions<T> = {},
+): ConnectableMarbleHarness<T> {
+    const timeline = createTimeline()
+    const subscription = new Subscription()
+    const state = recordWrites(options.state || ({} as T), timeline, subscription)
+    const harness = createConnectableHarness(fn, { ...options, state })
+
+    function driver(event: string, run: () => void) {
+        return () => {
+            timeline.recordLifecycle(event)
+            run()
+        }
+    }
+
+    return {
+        ...harness,
+        timeline,
+        init: driver("init", harness.init),
+        check: driver("check", harness.check),
+        viewInit: driver("viewInit", harness.viewInit),
+        rendered: driver("rendered", harness.rendered),
+        destroy: driver("destroy", () => {
+            harness.destroy()
+            subscription.unsubscribe()
+        }),
+    }
+}
+
+class TestViewRenderer implements RenderApi {
+    readonly scheduled = new Subject<void>()
+    readonly rendered = new Subject<void>()
+
+    detectChanges() {}
+
+    markDirty() {}
+
+    whenScheduled() {
+        return this.scheduled.asObservable()
+    }
+
+    whenRendered() {
+        return this.rendered.asObservable()
+    }
+}
+
+export function createEffectsMarbleHarness<T extends object>(
+    host: T,
+    options: EffectsMarbleHarnessOptions = {},
+): EffectsMarbleHarness<T> {
+    const timeline = createTimeline()
+    const subscription = new Subscription()
+    const context = recordWrites(host, timeline, subscription)
+    const hostRef = createHostRef()
+    const destroyObserver = new DestroyObserver()
+    const viewRenderer = new TestViewRenderer()
+    const changeDetectorRef = new HarnessChangeDetectorRef()
+    const injector = Injector.create({
+        providers: [
+            { provide: HostRef, useValue: hostRef },
+            { provide: ChangeDetectorRef, useValue: changeDetectorRef },
+            ...(options.providers || []),
+        ],
+        name: "EffectsMarbleHarness",
+    })
+
+    destroyObserver.add(subscription)
+
+    return {
+        context,
+        injector,
+        timeline,
+        init() {
+            timeline.recordLifecycle("init")
+            hostRef.setContext(context)
+            runEffects(
+                createEffectsFactory()(),
+                hostRef,
+                destroyObserver,
+                viewRenderer,
+                null,
+                injector,
+                changeDetectorRef,
+            )
+        },
+        check() {
+            timeline.recordLifecycle("check")
+            viewRenderer.scheduled.next()
+        },
+        rendered() {
+            timeline.recordLifecycle("rendered")
+            viewRenderer.rendered.next()
+        },
+        destroy() {
+            timeline.recordLifecycle("destroy")
+            destroyObserver.ngOnDestroy()
+        },
+    }
+}